@@ -1,24 +1,107 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Memo, ProcessingStatus, Tab, LogEntry } from './types';
+import React, { useState, useEffect, useRef, useMemo, useDeferredValue } from 'react';
+import { Memo, ProcessingStatus, Tab, LogEntry, AppSettings, Digest, DigestPeriod, LibraryFilters, LibraryChatTurn, LibrarySource, TranscriptionOptions, TranslationHistoryEntry, QueueJob, MemoQueueJob, TranslationQueueJob, ReprocessScope } from './types';
 import Recorder from './components/Recorder';
 import MemoCard from './components/MemoCard';
 import Translator from './components/Translator';
-import { transcribeAudio, summarizeTranscript } from './services/geminiService';
+import LibraryControls, { DEFAULT_LIBRARY_FILTERS } from './components/LibraryControls';
+import PasscodeSettings from './components/PasscodeSettings';
+import SettingsPanel from './components/SettingsPanel';
+import GlossaryEditor from './components/GlossaryEditor';
+import AudioImport from './components/AudioImport';
+import LibraryChat from './components/LibraryChat';
+import BulkActions from './components/BulkActions';
+import DigestView from './components/DigestView';
+import StoragePanel from './components/StoragePanel';
+import { summarizeTranscript, translateAudio, translateConversationTurn, answerLibraryQuestion, generateDigest } from './services/geminiService';
+import { blobToBase64, reencodeAudio } from './services/audioUtils';
+import { enqueueWaveform } from './services/audioLevels';
+import { withRetry } from './services/retry';
+import { exportLibrary, importLibrary, downloadBlob } from './services/backupService';
+import { transcribeRecording, isSegmented, SegmentCheckpoint } from './services/transcriptionPipeline';
+import { readAudioFile } from './services/importService';
+import { retrieveSources } from './services/libraryQaService';
+import { getMemoTitle } from './services/exportService';
+import { archiveBeforeRetranscription } from './services/transcriptRevisions';
+import { digestFilename, digestToMarkdown, memosInPeriod, toDigestSource } from './services/digestService';
+import { buildSearchIndex, applyLibraryFilters, collectFolders, collectTags, groupMemosByFolder, normalizeTag } from './services/searchService';
+import { loadMemos, saveMemos, saveAudio, getAudio, deleteMemo as deleteStoredMemo, getStorageUsage, StorageUsage, deleteAudio, listJobs, putJob, removeJob, setVaultKey, rekeyVault, getTranslationAudio, listDigests, saveDigest, deleteDigest } from './services/storageService';
+import { getSettings, updateSettings, shouldLog } from './services/settingsService';
+import { COMPACT_BITRATE, CompactionProgress, findCompactable, findExpiredAudio } from './services/storageMaintenance';
+import { isLockEnabled, getAutoLockMinutes, setAutoLockMinutes, createLock, unlockWithPasscode, removeLock } from './services/cryptoService';
+
+const MAX_JOB_ATTEMPTS = 5;
+const QUEUE_RETRY_INTERVAL_MS = 30000;
+const TRANSCRIPT_PLACEHOLDER = 'Analysing voice patterns...';
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart'] as const;
 
 const App: React.FC = () => {
   const [memos, setMemos] = useState<Memo[]>([]);
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
-  const [activeTab, setActiveTab] = useState<Tab>('translate');
-  const [isDecoyMode, setIsDecoyMode] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const [activeTab, setActiveTab] = useState<Tab>(() => getSettings().defaultTab);
+  const [isDecoyMode, setIsDecoyMode] = useState(isLockEnabled);
+  const [lockEnabled, setLockEnabled] = useState(isLockEnabled);
+  const [isVaultLocked, setIsVaultLocked] = useState(isLockEnabled);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(getAutoLockMinutes);
+  const [showUnlockPrompt, setShowUnlockPrompt] = useState(false);
+  const [passcodeEntry, setPasscodeEntry] = useState('');
+  const [unlockError, setUnlockError] = useState(false);
   const [hasMicPermission, setHasMicPermission] = useState<boolean | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [showLogs, setShowLogs] = useState(false);
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [compaction, setCompaction] = useState<CompactionProgress | null>(null);
+  const [libraryFilters, setLibraryFilters] = useState<LibraryFilters>(DEFAULT_LIBRARY_FILTERS);
+  const deferredFilters = useDeferredValue(libraryFilters);
+  const [jobs, setJobs] = useState<QueueJob[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const [showAsk, setShowAsk] = useState(false);
+  const [askTurns, setAskTurns] = useState<LibraryChatTurn[]>([]);
+  const [libraryView, setLibraryView] = useState<'memos' | 'digests'>('memos');
+  const [digests, setDigests] = useState<Digest[]>([]);
+  const [isDigestBusy, setIsDigestBusy] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null); // null when not in selection mode
+  // Set when a citation is opened; `nonce` re-triggers the jump for repeat taps on the same memo.
+  const [focusedMemo, setFocusedMemo] = useState<{ id: string; start?: number; nonce: number } | null>(null);
 
   const lastTapRef = useRef<{ count: number; time: number }>({ count: 0, time: 0 });
+  const lastActivityRef = useRef(Date.now());
+  const isDrainingRef = useRef(false);
+  const waveformRequestsRef = useRef(new Set<string>());
+  const compactionAbortRef = useRef<AbortController | null>(null);
+  const isRecordingRef = useRef(false);
+  const savedMemosRef = useRef(new Map<string, Memo>()); // last version of each memo handed to saveMemos
+  // Read by the auto-lock timer: locking clears the key, so a recording or job in flight could not be saved.
+  const isBusyRef = useRef(false);
+  isBusyRef.current = status !== ProcessingStatus.IDLE || memos.some(m => m.isProcessing) || !!compactionAbortRef.current;
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  // Queue callbacks outlive renders; they read memos through this ref.
+  const memosRef = useRef<Memo[]>(memos);
+  memosRef.current = memos;
+
+  const failedCount = memos.filter(m => m.error && !m.isProcessing && !m.isQueued).length;
+  const pendingJobCount = jobs.filter(j => !(j.kind === 'translation' && j.result)).length;
+  const completedTranslations = useMemo(
+    () => jobs.filter((j): j is TranslationQueueJob => j.kind === 'translation' && !!j.result),
+    [jobs]
+  );
+
+  const searchIndex = useMemo(() => buildSearchIndex(memos), [memos]);
+  const visibleMemos = useMemo(
+    () => applyLibraryFilters(memos, searchIndex, deferredFilters),
+    [memos, searchIndex, deferredFilters]
+  );
+  const libraryFolders = useMemo(() => collectFolders(memos), [memos]);
+  const libraryTags = useMemo(() => collectTags(memos), [memos]);
+  const selectedMemos = selectedIds ? memos.filter(m => selectedIds.has(m.id)) : [];
 
   const addLog = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+    // Read from the store, not state: queue callbacks hold an old addLog.
+    if (!shouldLog(entry.type)) return;
     const newLog: LogEntry = {
       ...entry,
       id: crypto.randomUUID(),
@@ -36,30 +119,110 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    const saved = localStorage.getItem('echo_mind_memos');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        const cleaned = parsed.map((m: Memo) => 
-          m.isProcessing ? { ...m, isProcessing: false, error: true, summary: "Processing interrupted" } : m
+    // An encrypted vault cannot be read until the passcode has been entered.
+    if (isVaultLocked) return;
+    loadMemos()
+      .then(({ memos: stored, migrated, migrationError }) => {
+        const cleaned = stored.map(m => 
+          m.isProcessing ? { ...m, isProcessing: false, segmentProgress: undefined, error: true, summary: "Processing interrupted" } : m
         );
+        savedMemosRef.current = new Map(stored.map(m => [m.id, m]));
         setMemos(cleaned);
-      } catch (e) {
-        addLog({ type: 'ERROR', source: 'System', message: 'Failed to load memos from storage' });
-      }
-    }
-  }, []);
+        if (migrated > 0) {
+          addLog({ type: 'INFO', source: 'Storage', message: `Migrated ${migrated} memos from legacy storage` });
+        }
+        if (migrationError) {
+          addLog({ type: 'ERROR', source: 'Storage', message: 'Failed to migrate memos from legacy storage', details: migrationError });
+        }
+      })
+      .catch((e: any) => {
+        addLog({ type: 'ERROR', source: 'System', message: 'Failed to load memos from storage', details: e?.message });
+      })
+      .finally(() => setIsStorageLoaded(true));
+    listDigests()
+      .then(setDigests)
+      .catch((e: any) => {
+        addLog({ type: 'WARNING', source: 'Storage', message: 'Failed to load digests', details: e?.message });
+      });
+  }, [isVaultLocked]);
 
   useEffect(() => {
-    try {
-      const toSave = memos.map(m => 
-        m.isProcessing ? { ...m, isProcessing: false, error: true, summary: "Processing failed" } : m
-      );
-      localStorage.setItem('echo_mind_memos', JSON.stringify(toSave));
-    } catch (e) {
-      addLog({ type: 'WARNING', source: 'Storage', message: 'Storage limit reached' });
-    }
-  }, [memos]);
+    if (!isStorageLoaded) return;
+    // Updates replace the memo object, so identity tells which memos changed since their last save.
+    const changed = memos.filter(m => m.isProcessing || savedMemosRef.current.get(m.id) !== m);
+    if (changed.length === 0) return;
+    changed.forEach(m => savedMemosRef.current.set(m.id, m));
+    const toSave = changed.map(m => {
+      if (!m.isProcessing) return m;
+      // A memo with a pending job resumes from the queue after a reload instead of failing.
+      return jobs.some(j => j.kind === 'memo' && j.memoId === m.id)
+        ? { ...m, isProcessing: false, segmentProgress: undefined, isQueued: true, summary: "Queued - will process when back online." }
+        : { ...m, isProcessing: false, segmentProgress: undefined, error: true, summary: "Processing failed" };
+    });
+    saveMemos(toSave).catch((e: any) => {
+      // Forget the failed versions so the next change writes them again.
+      changed.forEach(m => {
+        if (savedMemosRef.current.get(m.id) === m) savedMemosRef.current.delete(m.id);
+      });
+      addLog({ type: 'WARNING', source: 'Storage', message: 'Failed to persist memos', details: e?.message });
+    });
+  }, [memos, jobs, isStorageLoaded]);
+
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    listJobs().then(setJobs).catch(() => {});
+    drainQueue();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      addLog({ type: 'INFO', source: 'Network', message: 'Connection restored' });
+      drainQueue();
+    };
+    const handleOffline = () => {
+      setIsOnline(false);
+      addLog({ type: 'WARNING', source: 'Network', message: 'Connection lost' });
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    // Jobs that failed while online (API errors) are retried periodically too.
+    const retryTimer = setInterval(drainQueue, QUEUE_RETRY_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(retryTimer);
+    };
+  }, [isStorageLoaded]);
+
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    applyAudioRetention(getSettings().audioRetentionDays);
+  }, [isStorageLoaded]);
+
+  useEffect(() => {
+    if (!lockEnabled || isVaultLocked || autoLockMinutes <= 0) return;
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    // Polling rather than a single timeout also catches time spent suspended in the background.
+    const checkIdle = () => {
+      if (isRecordingRef.current || isBusyRef.current || isDrainingRef.current) markActive();
+      else if (Date.now() - lastActivityRef.current >= autoLockMinutes * 60000) lockVault();
+    };
+    markActive();
+    ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, markActive));
+    document.addEventListener('visibilitychange', checkIdle);
+    const idleTimer = setInterval(checkIdle, 5000);
+    return () => {
+      ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, markActive));
+      document.removeEventListener('visibilitychange', checkIdle);
+      clearInterval(idleTimer);
+    };
+  }, [lockEnabled, isVaultLocked, autoLockMinutes]);
+
+  useEffect(() => {
+    if (activeTab !== 'settings') return;
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(() => setStorageUsage(null));
+  }, [activeTab, memos]);
 
   const requestPermission = async () => {
     try {
@@ -86,7 +249,11 @@ const App: React.FC = () => {
     if (now - time < 400) {
       const newCount = count + 1;
       if (newCount >= 3) {
-        setIsDecoyMode(false);
+        if (lockEnabled) {
+          setShowUnlockPrompt(true);
+        } else {
+          setIsDecoyMode(false);
+        }
         lastTapRef.current = { count: 0, time: 0 };
       } else {
         lastTapRef.current = { count: newCount, time: now };
@@ -96,60 +263,601 @@ const App: React.FC = () => {
     }
   };
 
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result as string;
-        const base64String = result.split(',')[1];
-        resolve(base64String);
+  /**
+   * Drops the key and every decrypted memo from memory and shows the decoy
+   * screen. Without a passcode this only shows the decoy screen.
+   */
+  const lockVault = () => {
+    setIsDecoyMode(true);
+    if (!isLockEnabled()) return;
+    setVaultKey(null);
+    setIsVaultLocked(true);
+    setIsStorageLoaded(false);
+    setMemos([]);
+    setJobs([]);
+    setStorageUsage(null);
+    compactionAbortRef.current?.abort();
+    setCompaction(null);
+    setAskTurns([]);
+    setShowAsk(false);
+    setSelectedIds(null);
+    setDigests([]);
+    setFocusedMemo(null);
+    waveformRequestsRef.current.clear();
+    savedMemosRef.current.clear();
+    addLog({ type: 'INFO', source: 'Vault', message: 'Vault locked' });
+  };
+
+  const submitPasscode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const key = await unlockWithPasscode(passcodeEntry);
+      setVaultKey(key);
+      setIsVaultLocked(false);
+      setIsDecoyMode(false);
+      setShowUnlockPrompt(false);
+      setUnlockError(false);
+    } catch {
+      setUnlockError(true);
+    } finally {
+      setPasscodeEntry('');
+    }
+  };
+
+  const enablePasscode = async (passcode: string) => {
+    const { key, save } = await createLock(passcode, autoLockMinutes || 5);
+    await rekeyVault(null, key, save);
+    setLockEnabled(true);
+    setAutoLockMinutesState(getAutoLockMinutes());
+    addLog({ type: 'INFO', source: 'Vault', message: 'Passcode set, library encrypted' });
+  };
+
+  const changePasscode = async (current: string, next: string) => {
+    const oldKey = await unlockWithPasscode(current);
+    const { key, save } = await createLock(next, autoLockMinutes);
+    await rekeyVault(oldKey, key, save);
+    addLog({ type: 'INFO', source: 'Vault', message: 'Passcode changed, library re-encrypted' });
+  };
+
+  const disablePasscode = async (current: string) => {
+    const oldKey = await unlockWithPasscode(current);
+    await rekeyVault(oldKey, null, removeLock);
+    setLockEnabled(false);
+    addLog({ type: 'INFO', source: 'Vault', message: 'Passcode removed, library decrypted' });
+  };
+
+  const changeSettings = (patch: Partial<AppSettings>) => {
+    setSettings(updateSettings(patch));
+  };
+
+  const changeRetention = (days: number) => {
+    changeSettings({ audioRetentionDays: days });
+    applyAudioRetention(days);
+  };
+
+  const changeAutoLock = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    setAutoLockMinutesState(minutes);
+  };
+
+  const runMemoPipeline = async (
+    memoId: string,
+    blob: Blob | undefined,
+    duration: number,
+    options: TranscriptionOptions,
+    scope: ReprocessScope = 'all'
+  ) => {
+    let transcript = memosRef.current.find(m => m.id === memoId)?.transcript ?? '';
+    if (scope === 'summary' && (!transcript || transcript === TRANSCRIPT_PLACEHOLDER)) scope = 'all';
+    const onRetry = (attempt: number, err: any) => {
+      addLog({ type: 'WARNING', source: 'Cloud', message: `Transient failure, retrying (attempt ${attempt + 1})`, details: err?.message });
+    };
+
+    setMemos(prev => prev.map(m => m.id === memoId ? { ...m, isProcessing: true, isQueued: false, error: false } : m));
+
+    if (scope !== 'summary') {
+      if (!blob) throw new Error('AUDIO_MISSING: recording not found in storage');
+      setStatus(ProcessingStatus.TRANSCRIBING);
+      // Finished segments are stored on the memo, so a retry from the queue only sends the rest.
+      const checkpoint: SegmentCheckpoint = {
+        completed: memosRef.current.find(m => m.id === memoId)?.segmentResults ?? {},
+        onSegment: (index, result) => setMemos(prev => prev.map(m => m.id === memoId ? {
+          ...m, segmentResults: { ...m.segmentResults, [index]: result }
+        } : m)),
       };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+      const transcribe = () => transcribeRecording(blob, duration, options, segmentProgress => {
+        setMemos(prev => prev.map(m => m.id === memoId ? { ...m, segmentProgress } : m));
+      }, checkpoint);
+      // Segmented runs already retry each segment on its own.
+      const result = isSegmented(duration) ? await transcribe() : await withRetry(transcribe, { onRetry });
+      transcript = result.text;
+      setMemos(prev => prev.map(m => m.id === memoId ? {
+        ...m, ...archiveBeforeRetranscription(m), transcript, segments: result.segments, segmentProgress: undefined, segmentResults: undefined, isProcessing: scope !== 'transcript'
+      } : m));
+    }
+
+    if (scope !== 'transcript') {
+      setStatus(ProcessingStatus.SUMMARIZING);
+      const { summaryLength, summaryStyle } = getSettings();
+      const insights = await withRetry(() => summarizeTranscript(transcript, { length: summaryLength, style: summaryStyle }), { onRetry });
+      setMemos(prev => prev.map(m => m.id === memoId ? {
+        ...m,
+        title: insights.title,
+        summary: insights.summary,
+        keyPoints: insights.keyPoints,
+        actionItems: insights.actionItems,
+        suggestedTags: insights.tags,
+        summaryOutdated: false,
+        isProcessing: false
+      } : m));
+    }
+    
+    setStatus(ProcessingStatus.IDLE);
+  };
+
+  const enqueueJob = async (job: QueueJob) => {
+    await putJob(job);
+    setJobs(prev => [...prev.filter(j => j.id !== job.id), job]);
+  };
+
+  const queueMemo = async (memoId: string, duration: number, options: TranscriptionOptions, reason: string, scope: ReprocessScope = 'all') => {
+    const job: MemoQueueJob = {
+      id: crypto.randomUUID(),
+      kind: 'memo',
+      memoId,
+      duration,
+      options,
+      scope,
+      createdAt: Date.now(),
+      attempts: 0,
+      lastError: reason,
+    };
+    await enqueueJob(job);
+    setMemos(prev => prev.map(m => m.id === memoId ? {
+      ...m, isProcessing: false, isQueued: true, segmentProgress: undefined, summary: "Queued - will process when back online."
+    } : m));
+    addLog({ type: 'WARNING', source: 'Queue', message: 'Memo queued for later processing', details: { reason } });
+  };
+
+  const queueTranslation = async (audio: Blob, targetLanguage: string, conversationPartner?: string) => {
+    const job: TranslationQueueJob = {
+      id: crypto.randomUUID(),
+      kind: 'translation',
+      audio,
+      targetLanguage,
+      conversationPartner,
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+    await enqueueJob(job);
+    addLog({ type: 'WARNING', source: 'Queue', message: 'Translation queued for later processing' });
+  };
+
+  const consumeTranslations = (ids: string[]) => {
+    setJobs(prev => prev.filter(j => !ids.includes(j.id)));
+    ids.forEach(id => removeJob(id).catch(() => {}));
+  };
+
+  const runJob = async (job: QueueJob) => {
+    if (job.kind === 'memo') {
+      if (!memosRef.current.some(m => m.id === job.memoId)) {
+        // The memo was deleted while waiting.
+        await removeJob(job.id);
+        return;
+      }
+      const blob = job.scope === 'summary' ? undefined : await getAudio(job.memoId);
+      await runMemoPipeline(job.memoId, blob, job.duration, job.options, job.scope);
+      await removeJob(job.id);
+    } else {
+      const base64 = await blobToBase64(job.audio);
+      const mimeType = job.audio.type.split(';')[0];
+      const result = job.conversationPartner
+        ? await translateConversationTurn(base64, mimeType, job.targetLanguage, job.conversationPartner)
+        : await translateAudio(base64, mimeType, job.targetLanguage);
+      await putJob({ ...job, result });
+    }
+  };
+
+  const drainQueue = async () => {
+    if (isDrainingRef.current || !navigator.onLine) return;
+    isDrainingRef.current = true;
+    try {
+      const pending = (await listJobs()).filter(j => !(j.kind === 'translation' && j.result));
+      if (pending.length > 0) addLog({ type: 'INFO', source: 'Queue', message: `Processing ${pending.length} queued jobs` });
+      for (const job of pending) {
+        if (!navigator.onLine) break;
+        try {
+          await runJob(job);
+        } catch (err: any) {
+          const attempts = job.attempts + 1;
+          setStatus(ProcessingStatus.IDLE);
+          if (attempts >= MAX_JOB_ATTEMPTS) {
+            await removeJob(job.id);
+            addLog({ type: 'ERROR', source: 'Queue', message: `Job gave up after ${attempts} attempts`, details: err.message });
+            if (job.kind === 'memo') {
+              setMemos(prev => prev.map(m => m.id === job.memoId ? {
+                ...m, isProcessing: false, isQueued: false, segmentProgress: undefined, error: true, summary: "Cloud processing error."
+              } : m));
+            }
+          } else {
+            await putJob({ ...job, attempts, lastError: err.message });
+            if (job.kind === 'memo') {
+              setMemos(prev => prev.map(m => m.id === job.memoId ? { ...m, isProcessing: false, isQueued: true, segmentProgress: undefined } : m));
+            }
+          }
+        }
+      }
+    } catch (e: any) {
+      addLog({ type: 'ERROR', source: 'Queue', message: 'Queue processing failed', details: e?.message });
+    } finally {
+      isDrainingRef.current = false;
+      listJobs().then(setJobs).catch(() => {});
+    }
   };
 
-  const handleRecordingComplete = async (blob: Blob, duration: number) => {
+  const handleRecordingComplete = async (blob: Blob, duration: number, options: TranscriptionOptions = {}, fileName?: string) => {
     if (duration < 0.2 && blob.size === 0) return;
     const memoId = crypto.randomUUID();
     const cleanMimeType = blob.type.split(';')[0];
     addLog({ type: 'INFO', source: 'Recorder', message: 'Processing new memo', details: { size: blob.size, mime: cleanMimeType, duration } });
     
     try {
-      const base64 = await blobToBase64(blob);
-      const initialMemo: Memo = {
-        id: memoId,
-        timestamp: Date.now(),
-        audioBase64: base64,
-        mimeType: cleanMimeType,
-        transcript: 'Analysing voice patterns...',
-        summary: 'Gemini is thinking...',
-        duration: duration || 1,
-        isProcessing: true
-      };
-      setMemos(prev => [initialMemo, ...prev]);
-      setStatus(ProcessingStatus.TRANSCRIBING);
-      if (!isDecoyMode) setActiveTab('library');
-      
-      const transcript = await transcribeAudio(base64, cleanMimeType);
-      setMemos(prev => prev.map(m => m.id === memoId ? { ...m, transcript } : m));
-      
-      setStatus(ProcessingStatus.SUMMARIZING);
-      const summary = await summarizeTranscript(transcript);
-      setMemos(prev => prev.map(m => m.id === memoId ? { ...m, summary, isProcessing: false } : m));
-      
-      setStatus(ProcessingStatus.IDLE);
+      await saveAudio(memoId, blob);
+      requestWaveform(memoId, async () => blob);
+    } catch (err: any) {
+      addLog({ type: 'ERROR', source: 'Storage', message: 'Failed to save recording', details: err.message });
+      setStatus(ProcessingStatus.ERROR);
+      setTimeout(() => setStatus(ProcessingStatus.IDLE), 3000);
+      return;
+    }
+
+    const initialMemo: Memo = {
+      id: memoId,
+      timestamp: Date.now(),
+      mimeType: cleanMimeType,
+      audioSize: blob.size,
+      fileName,
+      transcript: TRANSCRIPT_PLACEHOLDER,
+      summary: 'Gemini is thinking...',
+      duration: duration || 1,
+      transcriptionOptions: options,
+      isProcessing: true
+    };
+    setMemos(prev => [initialMemo, ...prev]);
+    if (!isDecoyMode) setActiveTab('library');
+
+    if (!navigator.onLine) {
+      await queueMemo(memoId, duration, options, 'Offline');
+      return;
+    }
+
+    try {
+      await runMemoPipeline(memoId, blob, duration, options);
       addLog({ type: 'INFO', source: 'Cloud', message: 'Memo processed successfully' });
     } catch (err: any) {
       addLog({ type: 'ERROR', source: 'Cloud', message: err.message || 'Memo processing failed', details: err });
       setStatus(ProcessingStatus.ERROR);
-      setMemos(prev => prev.map(m => m.id === memoId ? { ...m, isProcessing: false, error: true, summary: "Cloud processing error." } : m));
       setTimeout(() => setStatus(ProcessingStatus.IDLE), 3000);
+      // Fails if the vault was locked meanwhile; the audio is saved, so "Retry all failed" can pick it up.
+      await queueMemo(memoId, duration, options, err.message || 'API failure').catch((e: any) => {
+        addLog({ type: 'ERROR', source: 'Queue', message: 'Failed to queue memo', details: e?.message });
+        setMemos(prev => prev.map(m => m.id === memoId ? { ...m, isProcessing: false, segmentProgress: undefined, error: true } : m));
+      });
+    }
+  };
+
+  /**
+   * Turns a Translator history entry into a Library memo. The original text
+   * becomes the transcript and only the summary step runs.
+   */
+  const promoteTranslation = async (entry: TranslationHistoryEntry) => {
+    const memoId = crypto.randomUUID();
+    const audio = entry.audioMimeType ? await getTranslationAudio(entry.id) : undefined;
+    if (audio) await saveAudio(memoId, audio);
+
+    const memo: Memo = {
+      id: memoId,
+      timestamp: entry.timestamp,
+      mimeType: audio?.type.split(';')[0] ?? '',
+      audioSize: audio?.size ?? 0,
+      transcript: entry.original,
+      summary: 'Gemini is thinking...',
+      title: `${entry.sourceLanguage || 'Translation'} → ${entry.targetLanguage}`,
+      duration: entry.duration || 1,
+    };
+    setMemos(prev => [memo, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+    // The pipeline reads the transcript from the ref, which would otherwise only update on the next render.
+    memosRef.current = [memo, ...memosRef.current];
+    addLog({ type: 'INFO', source: 'Translator', message: 'Translation saved as memo', details: { id: memoId } });
+    setActiveTab('library');
+
+    if (!navigator.onLine) {
+      await queueMemo(memoId, memo.duration, {}, 'Offline', 'summary');
+      return;
+    }
+    try {
+      await runMemoPipeline(memoId, undefined, memo.duration, {}, 'summary');
+    } catch (err: any) {
+      addLog({ type: 'ERROR', source: 'Cloud', message: err.message || 'Memo summary failed', details: err });
+      setStatus(ProcessingStatus.IDLE);
+      await queueMemo(memoId, memo.duration, {}, err.message || 'API failure', 'summary');
+    }
+  };
+
+  const reprocessMemo = async (id: string, scope: ReprocessScope) => {
+    const memo = memosRef.current.find(m => m.id === id);
+    if (!memo || memo.isProcessing || memo.isQueued) return;
+    const options = memo.transcriptionOptions || {};
+    addLog({ type: 'INFO', source: 'Cloud', message: `Reprocessing memo (${scope})`, details: { id } });
+
+    if (!navigator.onLine) {
+      await queueMemo(id, memo.duration, options, 'Offline', scope);
+      return;
+    }
+
+    try {
+      const blob = scope === 'summary' ? undefined : await getAudio(id);
+      await runMemoPipeline(id, blob, memo.duration, options, scope);
+      addLog({ type: 'INFO', source: 'Cloud', message: 'Memo reprocessed successfully' });
+    } catch (err: any) {
+      addLog({ type: 'ERROR', source: 'Cloud', message: err.message || 'Memo reprocessing failed', details: err });
+      setStatus(ProcessingStatus.ERROR);
+      setMemos(prev => prev.map(m => m.id === id ? { ...m, isProcessing: false, segmentProgress: undefined, error: true } : m));
+      setTimeout(() => setStatus(ProcessingStatus.IDLE), 3000);
+    }
+  };
+
+  const retryAllFailed = async () => {
+    const failed = memosRef.current.filter(m => m.error && !m.isProcessing && !m.isQueued);
+    addLog({ type: 'INFO', source: 'Cloud', message: `Retrying ${failed.length} failed memos` });
+    for (const memo of failed) {
+      await reprocessMemo(memo.id, 'all');
+    }
+  };
+
+  const exportMemos = async (selection: Memo[]) => {
+    if (selection.length === 0 || isBackupBusy) return;
+    setIsBackupBusy(true);
+    try {
+      const archive = await exportLibrary(selection);
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadBlob(archive, `allanecho-backup-${stamp}.zip`);
+      addLog({ type: 'INFO', source: 'Backup', message: `Exported ${selection.length} memos`, details: { size: archive.size } });
+    } catch (err: any) {
+      addLog({ type: 'ERROR', source: 'Backup', message: 'Export failed', details: err.message });
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBackupBusy(true);
+    try {
+      const { imported, skipped, missingAudio } = await importLibrary(file, new Set(memosRef.current.map(m => m.id)));
+      setMemos(prev => [...prev, ...imported].sort((a, b) => b.timestamp - a.timestamp));
+      addLog({ type: 'INFO', source: 'Backup', message: `Imported ${imported.length} memos, skipped ${skipped} duplicates`, details: { missingAudio } });
+    } catch (err: any) {
+      addLog({ type: 'ERROR', source: 'Backup', message: 'Import failed', details: err.message });
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const importAudioFiles = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const { blob, duration, fileName } = await readAudioFile(file);
+        addLog({ type: 'INFO', source: 'Import', message: `Importing ${fileName}`, details: { size: blob.size, type: blob.type, duration } });
+        await handleRecordingComplete(blob, duration, {}, fileName);
+      } catch (err: any) {
+        addLog({ type: 'ERROR', source: 'Import', message: `Could not import ${file.name}`, details: err.message });
+      }
+    }
+  };
+
+  const askLibrary = async (question: string) => {
+    const id = crypto.randomUUID();
+    const sources = retrieveSources(memosRef.current, question);
+    setAskTurns(prev => [...prev, { id, question, sources: [], status: 'pending' }]);
+    try {
+      const { answer, citations } = await withRetry(() => answerLibraryQuestion(question, sources));
+      setAskTurns(prev => prev.map(t => t.id === id ? { ...t, answer, sources: citations.map(i => sources[i]), status: 'done' } : t));
+    } catch (err: any) {
+      addLog({ type: 'ERROR', source: 'Ask', message: 'Library question failed', details: err.message });
+      setAskTurns(prev => prev.map(t => t.id === id ? { ...t, status: 'error' } : t));
+    }
+  };
+
+  const focusMemo = (memoId: string, start?: number) => {
+    if (!visibleMemos.some(m => m.id === memoId)) setLibraryFilters(DEFAULT_LIBRARY_FILTERS);
+    setActiveTab('library');
+    setLibraryView('memos');
+    setFocusedMemo({ id: memoId, start, nonce: Date.now() });
+  };
+
+  const openSource = (source: LibrarySource) => {
+    setShowAsk(false);
+    focusMemo(source.memoId, source.start);
+  };
+
+  const createDigest = async (period: DigestPeriod, periodStart: number) => {
+    const included = memosInPeriod(memosRef.current, periodStart, period);
+    if (included.length === 0 || isDigestBusy) return;
+    setIsDigestBusy(true);
+    try {
+      const insights = await withRetry(() => generateDigest(included.map(toDigestSource), period));
+      const existing = digests.find(d => d.period === period && d.periodStart === periodStart);
+      const digest: Digest = {
+        ...insights,
+        id: existing?.id ?? crypto.randomUUID(),
+        period,
+        periodStart,
+        createdAt: Date.now(),
+        memoIds: included.map(m => m.id),
+      };
+      await saveDigest(digest);
+      setDigests(prev => [digest, ...prev.filter(d => d.id !== digest.id)].sort((a, b) => b.periodStart - a.periodStart));
+      addLog({ type: 'INFO', source: 'Digest', message: `Digest written from ${included.length} memos` });
+    } catch (err: any) {
+      addLog({ type: 'ERROR', source: 'Digest', message: 'Digest generation failed', details: err.message });
+    } finally {
+      setIsDigestBusy(false);
+    }
+  };
+
+  const exportDigest = (digest: Digest) => {
+    downloadBlob(new Blob([digestToMarkdown(digest, memos)], { type: 'text/markdown;charset=utf-8' }), digestFilename(digest));
+  };
+
+  const removeDigest = (id: string) => {
+    setDigests(prev => prev.filter(d => d.id !== id));
+    deleteDigest(id).catch((e: any) => {
+      addLog({ type: 'WARNING', source: 'Storage', message: 'Failed to delete digest', details: e?.message });
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev ?? []);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const moveSelected = (folder: string | null) => {
+    const target = folder?.trim() || undefined;
+    setMemos(prev => prev.map(m => selectedIds?.has(m.id) ? { ...m, folder: target } : m));
+    addLog({ type: 'INFO', source: 'Library', message: `Moved ${selectedIds?.size ?? 0} memos to ${target ?? 'Unfiled'}` });
+  };
+
+  const tagSelected = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (!tag) return;
+    setMemos(prev => prev.map(m => selectedIds?.has(m.id) && !m.tags?.includes(tag) ? { ...m, tags: [...(m.tags || []), tag] } : m));
+  };
+
+  const deleteSelected = () => {
+    selectedMemos.forEach(m => deleteMemo(m.id));
+    addLog({ type: 'INFO', source: 'Library', message: `Deleted ${selectedMemos.length} memos` });
+    setSelectedIds(new Set());
+  };
+
+  const renderMemoCard = (memo: Memo) => (
+    <MemoCard
+      key={memo.id}
+      memo={memo}
+      onDelete={deleteMemo}
+      onUpdate={updateMemo}
+      onReprocess={reprocessMemo}
+      highlight={deferredFilters.query}
+      focus={focusedMemo?.id === memo.id ? focusedMemo : undefined}
+      selecting={selectedIds !== null}
+      selected={!!selectedIds?.has(memo.id)}
+      onToggleSelect={toggleSelected}
+      onNeedWaveform={requestWaveform}
+    />
+  );
+
+  const updateMemo = (id: string, patch: Partial<Memo>) => {
+    setMemos(prev => prev.map(m => m.id === id ? { ...m, ...patch } : m));
+  };
+
+  /**
+   * Queues the thumbnail waveform for a memo, once per memo per session. New
+   * recordings pass their Blob; older memos load it when their turn comes.
+   */
+  const requestWaveform = (memoId: string, load: () => Promise<Blob | undefined> = () => getAudio(memoId)) => {
+    if (waveformRequestsRef.current.has(memoId)) return;
+    waveformRequestsRef.current.add(memoId);
+    enqueueWaveform(load)
+      .then(waveform => {
+        if (waveform) updateMemo(memoId, { waveform });
+      })
+      .catch((e: any) => {
+        addLog({ type: 'WARNING', source: 'Audio', message: 'Waveform analysis failed', details: e?.message });
+      });
+  };
+
+  /**
+   * Drops the audio of memos older than the retention limit and marks them
+   * text-only. Runs on every vault load and whenever the policy changes.
+   */
+  const applyAudioRetention = async (days: number) => {
+    const expired = findExpiredAudio(memosRef.current, days);
+    if (expired.length === 0) return;
+    const removed = new Set<string>();
+    for (const memo of expired) {
+      try {
+        await deleteAudio(memo.id);
+        removed.add(memo.id);
+      } catch (e: any) {
+        addLog({ type: 'WARNING', source: 'Storage', message: 'Failed to remove expired audio', details: e?.message });
+      }
+    }
+    const removedAt = Date.now();
+    setMemos(prev => prev.map(m => removed.has(m.id) ? { ...m, audioSize: 0, audioRemovedAt: removedAt } : m));
+    addLog({ type: 'INFO', source: 'Storage', message: `Removed audio from ${removed.size} memos older than ${days} days` });
+  };
+
+  /**
+   * Re-encodes old WAV/MP4 recordings to the compact codec one at a time. A
+   * result that is not smaller than the original is discarded.
+   */
+  const compactLibrary = async () => {
+    const candidates = findCompactable(memosRef.current);
+    if (candidates.length === 0) return;
+    // Created before the first await so Safari counts it as started by the tap.
+    const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+    const ctx: AudioContext = new AudioContextClass();
+    const controller = new AbortController();
+    compactionAbortRef.current = controller;
+    let progress: CompactionProgress = { done: 0, total: candidates.length, before: 0, after: 0, running: true };
+    setCompaction(progress);
+    for (const memo of candidates) {
+      if (controller.signal.aborted) break;
+      try {
+        const original = await getAudio(memo.id);
+        if (original) {
+          const compacted = await reencodeAudio(ctx, original, COMPACT_BITRATE, controller.signal);
+          // The memo may have been deleted while it was being re-encoded.
+          if (compacted.size > 0 && compacted.size < original.size && memosRef.current.some(m => m.id === memo.id)) {
+            await saveAudio(memo.id, compacted);
+            updateMemo(memo.id, { mimeType: compacted.type, audioSize: compacted.size, compactedFrom: original.size });
+            progress = { ...progress, before: progress.before + original.size, after: progress.after + compacted.size };
+          }
+        }
+      } catch (e: any) {
+        if (controller.signal.aborted) break;
+        addLog({ type: 'WARNING', source: 'Storage', message: `Could not compact "${getMemoTitle(memo)}"`, details: e?.message });
+      }
+      progress = { ...progress, done: progress.done + 1 };
+      setCompaction(progress);
     }
+    ctx.close();
+    compactionAbortRef.current = null;
+    setCompaction({ ...progress, running: false });
+    addLog({
+      type: 'INFO',
+      source: 'Storage',
+      message: controller.signal.aborted ? `Compaction cancelled after ${progress.done} of ${candidates.length} recordings` : `Compacted ${candidates.length} recordings`,
+      details: { before: progress.before, after: progress.after },
+    });
   };
 
   const deleteMemo = (id: string) => {
     setMemos(prev => prev.filter(m => m.id !== id));
+    savedMemosRef.current.delete(id);
+    jobs.filter(j => j.kind === 'memo' && j.memoId === id).forEach(j => {
+      setJobs(prev => prev.filter(p => p.id !== j.id));
+      removeJob(j.id).catch(() => {});
+    });
+    deleteStoredMemo(id).catch((e: any) => {
+      addLog({ type: 'WARNING', source: 'Storage', message: 'Failed to delete memo from storage', details: e?.message });
+    });
   };
 
   if (hasMicPermission === false || hasMicPermission === null) {
@@ -187,6 +895,22 @@ const App: React.FC = () => {
               {currentTime.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' })}
             </div>
           </div>
+          {showUnlockPrompt && (
+            <form
+              onSubmit={submitPasscode}
+              onClick={(e) => e.stopPropagation()}
+              className="mt-10 w-full max-w-[12rem] animate-in fade-in duration-300"
+            >
+              <input
+                type="password"
+                autoFocus
+                value={passcodeEntry}
+                onChange={(e) => { setPasscodeEntry(e.target.value); setUnlockError(false); }}
+                onBlur={() => !passcodeEntry && setShowUnlockPrompt(false)}
+                className={`w-full bg-transparent border-b text-center text-slate-400 text-lg tracking-[0.5em] py-1 focus:outline-none select-text ${unlockError ? 'border-red-900 animate-pulse' : 'border-slate-800'}`}
+              />
+            </form>
+          )}
         </div>
       )}
 
@@ -261,6 +985,17 @@ const App: React.FC = () => {
             </div>
           )}
           
+          {(pendingJobCount > 0 || !isOnline) && (
+            <button
+              onClick={drainQueue}
+              disabled={!isOnline}
+              className={`flex items-center gap-1.5 text-[7px] font-bold px-2 py-0.5 rounded-full border shadow-xl ${!isOnline ? 'text-amber-400 bg-amber-500/10 border-amber-500/30' : 'text-slate-400 bg-slate-900 border-slate-800'}`}
+            >
+              <div className={`w-1 h-1 rounded-full ${!isOnline ? 'bg-amber-400' : 'bg-slate-500 animate-pulse'}`}></div>
+              {!isOnline ? 'OFFLINE' : 'QUEUE'}{pendingJobCount > 0 ? ` · ${pendingJobCount}` : ''}
+            </button>
+          )}
+
           <button 
             onClick={() => setShowLogs(true)} 
             className={`p-2 transition-all ${logs.some(l => l.type === 'ERROR') ? 'text-red-500 animate-pulse' : 'text-slate-600 hover:text-slate-400'}`}
@@ -270,7 +1005,7 @@ const App: React.FC = () => {
             </svg>
           </button>
 
-          <button onClick={() => setIsDecoyMode(true)} className="p-2 text-slate-600 hover:text-slate-400 transition-colors">
+          <button onClick={lockVault} className="p-2 text-slate-600 hover:text-slate-400 transition-colors">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
             </svg>
@@ -279,49 +1014,206 @@ const App: React.FC = () => {
       </header>
 
       <main className={`flex-1 overflow-y-auto no-scrollbar max-w-xl w-full mx-auto px-4 ${activeTab === 'translate' ? 'overflow-hidden flex flex-col' : 'pb-32'}`}>
-        {activeTab === 'translate' && (
+        {activeTab === 'translate' && !isVaultLocked && (
           <div className="flex-1 flex flex-col min-h-0 animate-in fade-in slide-in-from-bottom-4 duration-400">
-             <Translator status={status} setStatus={setStatus} addLog={addLog} />
+             <Translator
+               status={status}
+               setStatus={setStatus}
+               addLog={addLog}
+               queuedResults={completedTranslations}
+               onQueueTranslation={queueTranslation}
+               onQueuedResultsConsumed={consumeTranslations}
+               defaultTargetLanguage={settings.defaultTargetLanguage}
+               recordingBitrate={settings.recordingBitrate}
+               keepTranslationAudio={settings.keepTranslationAudio}
+               onPromoteToMemo={promoteTranslation}
+             />
           </div>
         )}
 
         {activeTab === 'record' && (
           <div className="h-full flex flex-col items-center justify-center space-y-4 animate-in fade-in zoom-in-95 duration-500">
-            <Recorder onRecordingComplete={handleRecordingComplete} status={status} addLog={addLog} />
+            <AudioImport onImport={importAudioFiles} disabled={status === ProcessingStatus.TRANSCRIBING || status === ProcessingStatus.SUMMARIZING}>
+              <Recorder onRecordingComplete={handleRecordingComplete} status={status} addLog={addLog} recordingBitrate={settings.recordingBitrate} silenceAutoStopSeconds={settings.silenceAutoStopSeconds} maxRecordingMinutes={settings.maxRecordingMinutes} onRecordingChange={recording => { isRecordingRef.current = recording; }} />
+            </AudioImport>
           </div>
         )}
 
         {activeTab === 'library' && (
           <div className="animate-in fade-in slide-in-from-bottom-4 duration-400">
-            <div className="mb-3 flex items-center justify-between px-2 pt-2">
-              <h2 className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Storage</h2>
-              <span className="text-[9px] font-bold text-indigo-400 bg-indigo-500/10 px-2 py-0.5 rounded-full border border-indigo-500/20">{memos.length} FILES</span>
+            <div className="flex bg-slate-900 rounded-xl p-0.5 border border-slate-800 mx-1 mt-2">
+              {(['memos', 'digests'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setLibraryView(view)}
+                  className={`flex-1 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${libraryView === view ? 'bg-indigo-500 text-white' : 'text-slate-500'}`}
+                >
+                  {view === 'memos' ? 'Memos' : `Digests${digests.length > 0 ? ` (${digests.length})` : ''}`}
+                </button>
+              ))}
             </div>
-            <div className="space-y-2 pb-6">
-              {memos.length === 0 ? (
-                <div className="text-center py-16 bg-slate-900/30 rounded-3xl border border-dashed border-slate-800">
-                  <p className="text-slate-600 text-xs font-medium">Memory bank empty.</p>
+            {libraryView === 'digests' ? (
+              <div className="pt-3">
+                <DigestView
+                  digests={digests}
+                  memos={memos}
+                  isGenerating={isDigestBusy}
+                  onGenerate={createDigest}
+                  onExport={exportDigest}
+                  onDelete={removeDigest}
+                  onOpenMemo={(memoId) => focusMemo(memoId)}
+                />
+              </div>
+            ) : (
+              <>
+                <div className="mb-3 flex items-center justify-between px-2 pt-2">
+                  <h2 className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Storage</h2>
+                  <div className="flex items-center gap-2">
+                    {failedCount > 0 && (
+                      <button
+                        onClick={retryAllFailed}
+                        disabled={status !== ProcessingStatus.IDLE}
+                        className="text-[9px] font-black text-red-400 bg-red-500/10 px-2 py-0.5 rounded-full border border-red-500/20 uppercase tracking-wider disabled:opacity-40"
+                      >
+                        Retry {failedCount} Failed
+                      </button>
+                    )}
+                    {memos.length > 0 && (
+                      <button
+                        onClick={() => setSelectedIds(selectedIds ? null : new Set())}
+                        className={`text-[9px] font-black px-2 py-0.5 rounded-full border uppercase tracking-wider ${selectedIds ? 'text-white bg-indigo-500 border-indigo-400' : 'text-slate-400 bg-slate-900 border-slate-800'}`}
+                      >
+                        Select
+                      </button>
+                    )}
+                    {memos.length > 0 && (
+                      <button
+                        onClick={() => setShowAsk(true)}
+                        className="text-[9px] font-black text-indigo-400 bg-indigo-500/10 px-2 py-0.5 rounded-full border border-indigo-500/20 uppercase tracking-wider"
+                      >
+                        Ask
+                      </button>
+                    )}
+                    {visibleMemos.length > 0 && (
+                      <button
+                        onClick={() => exportMemos(visibleMemos)}
+                        disabled={isBackupBusy}
+                        className="text-[9px] font-black text-slate-400 bg-slate-900 px-2 py-0.5 rounded-full border border-slate-800 uppercase tracking-wider disabled:opacity-40"
+                      >
+                        Export
+                      </button>
+                    )}
+                    <span className="text-[9px] font-bold text-indigo-400 bg-indigo-500/10 px-2 py-0.5 rounded-full border border-indigo-500/20">
+                      {visibleMemos.length === memos.length ? `${memos.length} FILES` : `${visibleMemos.length} / ${memos.length} FILES`}
+                    </span>
+                  </div>
                 </div>
-              ) : (
-                memos.map(memo => (
-                  <MemoCard key={memo.id} memo={memo} onDelete={deleteMemo} />
-                ))
-              )}
-            </div>
+                {memos.length > 0 && (
+                  <LibraryControls filters={libraryFilters} onChange={setLibraryFilters} tags={libraryTags} />
+                )}
+                <div className="space-y-2 pb-6">
+                  {memos.length === 0 ? (
+                    <div className="text-center py-16 bg-slate-900/30 rounded-3xl border border-dashed border-slate-800">
+                      <p className="text-slate-600 text-xs font-medium">Memory bank empty.</p>
+                    </div>
+                  ) : visibleMemos.length === 0 ? (
+                    <div className="text-center py-16 bg-slate-900/30 rounded-3xl border border-dashed border-slate-800">
+                      <p className="text-slate-600 text-xs font-medium">No memos match your search.</p>
+                    </div>
+                  ) : deferredFilters.groupByFolder ? (
+                    groupMemosByFolder(visibleMemos).map(group => (
+                      <div key={group.folder ?? ''}>
+                        <div className="flex items-center gap-2 px-2 pt-2 pb-1.5">
+                          <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">{group.folder ?? 'Unfiled'}</span>
+                          <span className="text-[8px] font-bold text-slate-600">{group.memos.length}</span>
+                        </div>
+                        {group.memos.map(renderMemoCard)}
+                      </div>
+                    ))
+                  ) : (
+                    visibleMemos.map(renderMemoCard)
+                  )}
+                  {selectedIds && (
+                    <BulkActions
+                      count={selectedMemos.length}
+                      folders={libraryFolders}
+                      tags={libraryTags}
+                      isBusy={isBackupBusy}
+                      onMove={moveSelected}
+                      onTag={tagSelected}
+                      onDelete={deleteSelected}
+                      onExport={() => exportMemos(selectedMemos)}
+                      onSelectAll={() => setSelectedIds(new Set(visibleMemos.map(m => m.id)))}
+                      onCancel={() => setSelectedIds(null)}
+                    />
+                  )}
+                </div>
+              </>
+            )}
           </div>
         )}
 
         {activeTab === 'settings' && (
           <div className="animate-in fade-in slide-in-from-bottom-4 duration-300 bg-slate-900/80 rounded-3xl p-6 border border-slate-800 mt-2">
             <h2 className="text-base font-bold text-slate-100 mb-1">Configuration</h2>
-            <p className="text-slate-500 text-[10px] mb-4 uppercase tracking-widest">Optimized for iPhone 16 Pro Max</p>
-            <div className="p-3 bg-slate-950/50 rounded-xl flex justify-between items-center border border-slate-800/50">
-                <span className="text-[10px] font-semibold text-slate-400">Cache Usage</span>
-                <span className="text-[9px] font-bold text-indigo-400 bg-indigo-500/10 px-2 py-1 rounded-lg border border-indigo-500/20">~{(memos.length * 0.25).toFixed(1)} MB</span>
+            <p className="text-slate-500 text-[10px] mb-4 uppercase tracking-widest">Saved on this device</p>
+            <SettingsPanel settings={settings} onChange={changeSettings} />
+            <GlossaryEditor addLog={addLog} />
+            <StoragePanel
+              usage={storageUsage}
+              memos={memos}
+              retentionDays={settings.audioRetentionDays}
+              compaction={compaction}
+              onRetentionChange={changeRetention}
+              onCompact={compactLibrary}
+              onCancelCompact={() => compactionAbortRef.current?.abort()}
+              onOpenMemo={focusMemo}
+              addLog={addLog}
+            />
+            <div className="mt-3 p-3 bg-slate-950/50 rounded-xl border border-slate-800/50">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-[10px] font-semibold text-slate-400">Library Backup</span>
+                  {isBackupBusy && <span className="text-[8px] font-black text-indigo-400 uppercase tracking-widest animate-pulse">Working...</span>}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => exportMemos(memos)}
+                    disabled={isBackupBusy || memos.length === 0}
+                    className="flex-1 py-2 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest rounded-lg disabled:opacity-40 active:scale-95 transition-all"
+                  >
+                    Export All
+                  </button>
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={isBackupBusy}
+                    className="flex-1 py-2 bg-slate-900 text-slate-300 text-[9px] font-black uppercase tracking-widest rounded-lg border border-slate-800 disabled:opacity-40 active:scale-95 transition-all"
+                  >
+                    Import
+                  </button>
+                  <input ref={importInputRef} type="file" accept=".zip,application/zip" onChange={handleImportFile} className="hidden" />
+                </div>
             </div>
+            <PasscodeSettings
+              isEnabled={lockEnabled}
+              autoLockMinutes={autoLockMinutes}
+              onEnable={enablePasscode}
+              onChange={changePasscode}
+              onDisable={disablePasscode}
+              onAutoLockChange={changeAutoLock}
+            />
           </div>
         )}
       </main>
+
+      {showAsk && !isVaultLocked && (
+        <LibraryChat
+          turns={askTurns}
+          onAsk={askLibrary}
+          onOpenSource={openSource}
+          onClear={() => setAskTurns([])}
+          onClose={() => setShowAsk(false)}
+        />
+      )}
       
       <footer className="flex-none bg-slate-950/95 backdrop-blur-3xl border-t border-slate-900/50 flex items-center justify-around z-50 px-2 pt-1.5 pb-[calc(max(1rem,env(safe-area-inset-bottom))+16px)] shadow-[0_-10px_40px_rgba(0,0,0,0.5)]">
         <button onClick={() => setActiveTab('translate')} className={`flex flex-col items-center gap-0.5 transition-all flex-1 relative ${activeTab === 'translate' ? 'text-indigo-400' : 'text-slate-600'}`}>
@@ -0,0 +1,79 @@
+import React, { useRef, useState } from 'react';
+import { AUDIO_FILE_ACCEPT } from '../services/importService';
+
+interface AudioImportProps {
+  onImport: (files: File[]) => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+const AudioImport: React.FC<AudioImportProps> = ({ onImport, disabled, children }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // dragenter/dragleave fire for every child element, so count them to know when the pointer really left.
+  const dragDepthRef = useRef(0);
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const onDragEnter = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDragging(true);
+  };
+
+  const onDragOver = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const onDragLeave = () => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragging(false);
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onImport(files);
+  };
+
+  const onPick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) onImport(files);
+  };
+
+  return (
+    <div onDragEnter={onDragEnter} onDragOver={onDragOver} onDragLeave={onDragLeave} onDrop={onDrop} className="relative w-full">
+      {children}
+
+      <div className="mt-4 flex flex-col items-center">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border bg-slate-950/50 border-slate-800 text-slate-400 hover:border-indigo-500/30 hover:text-indigo-400 transition-all active:scale-95 disabled:opacity-40"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+          </svg>
+          <span className="text-[9px] font-black uppercase tracking-widest">Import Audio File</span>
+        </button>
+        <p className="mt-2 text-[8px] font-bold text-slate-600 uppercase tracking-widest">Or drop M4A, MP3, WAV, AAC or WebM here</p>
+        <input ref={fileInputRef} type="file" accept={AUDIO_FILE_ACCEPT} multiple onChange={onPick} className="hidden" />
+      </div>
+
+      {isDragging && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center rounded-[2.5rem] border-2 border-dashed border-indigo-500/60 bg-slate-950/80 backdrop-blur-sm pointer-events-none animate-in fade-in duration-150">
+          <span className="text-xs font-black text-indigo-300 uppercase tracking-widest">Drop audio to transcribe</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioImport;
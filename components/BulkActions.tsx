@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+
+interface BulkActionsProps {
+  count: number;
+  folders: string[];
+  tags: string[];
+  isBusy: boolean;
+  onMove: (folder: string | null) => void;
+  onTag: (tag: string) => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onSelectAll: () => void;
+  onCancel: () => void;
+}
+
+type BulkMode = 'none' | 'move' | 'tag' | 'delete';
+
+const actionClass = "px-2 py-1 rounded-full bg-slate-950/50 border border-slate-800 text-[8px] font-black text-slate-400 uppercase tracking-wider hover:border-indigo-500/30 hover:text-indigo-400 active:scale-95 transition-all disabled:opacity-40";
+const inputClass = "flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-2.5 py-1.5 text-[10px] font-bold text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/40 select-text";
+
+const BulkActions: React.FC<BulkActionsProps> = ({ count, folders, tags, isBusy, onMove, onTag, onDelete, onExport, onSelectAll, onCancel }) => {
+  const [mode, setMode] = useState<BulkMode>('none');
+  const [draft, setDraft] = useState('');
+
+  const toggleMode = (next: BulkMode) => {
+    setMode(mode === next ? 'none' : next);
+    setDraft('');
+  };
+
+  const finish = (action: () => void) => {
+    action();
+    setMode('none');
+    setDraft('');
+  };
+
+  const submitDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = draft.trim();
+    if (!value) return;
+    finish(() => mode === 'move' ? onMove(value) : onTag(value));
+  };
+
+  const disabled = count === 0 || isBusy;
+
+  return (
+    <div className="sticky bottom-2 z-30 p-3 bg-slate-900/95 backdrop-blur-xl rounded-2xl border border-indigo-500/30 shadow-2xl animate-in fade-in slide-in-from-bottom-2 duration-200">
+      <div className="flex items-center gap-1.5 flex-wrap">
+        <span className="text-[9px] font-black text-indigo-400 uppercase tracking-widest mr-1">{count} selected</span>
+        <button onClick={() => toggleMode('move')} disabled={disabled} className={actionClass}>Move</button>
+        <button onClick={() => toggleMode('tag')} disabled={disabled} className={actionClass}>Tag</button>
+        <button onClick={onExport} disabled={disabled} className={actionClass}>Export</button>
+        <button onClick={() => toggleMode('delete')} disabled={disabled} className={`${actionClass} hover:text-red-400 hover:border-red-500/30`}>Delete</button>
+        <span className="flex-1"></span>
+        <button onClick={onSelectAll} className="text-[8px] font-black text-slate-500 uppercase tracking-wider hover:text-slate-300">All</button>
+        <button onClick={onCancel} className="text-[8px] font-black text-slate-500 uppercase tracking-wider hover:text-slate-300 ml-2">Done</button>
+      </div>
+
+      {(mode === 'move' || mode === 'tag') && (
+        <div className="mt-2 space-y-2 animate-in fade-in duration-150">
+          <div className="flex flex-wrap gap-1.5">
+            {mode === 'move' && <button onClick={() => finish(() => onMove(null))} className={actionClass}>Unfiled</button>}
+            {(mode === 'move' ? folders : tags).map(name => (
+              <button key={name} onClick={() => finish(() => mode === 'move' ? onMove(name) : onTag(name))} className={actionClass}>
+                {mode === 'tag' ? `#${name}` : name}
+              </button>
+            ))}
+          </div>
+          <form onSubmit={submitDraft} className="flex gap-2">
+            <input
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={mode === 'move' ? 'New folder' : 'New tag'}
+              className={inputClass}
+            />
+            <button type="submit" disabled={!draft.trim()} className="px-3 py-1.5 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest rounded-lg disabled:opacity-40 active:scale-95 transition-all">
+              {mode === 'move' ? 'Move' : 'Add'}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {mode === 'delete' && (
+        <div className="mt-2 flex items-center gap-2 animate-in fade-in duration-150">
+          <span className="flex-1 text-[10px] font-bold text-red-400">Delete {count} memos and their audio?</span>
+          <button onClick={() => finish(onDelete)} className="px-3 py-1.5 bg-red-600 text-white text-[9px] font-black uppercase tracking-widest rounded-lg active:scale-95 transition-all">Delete</button>
+          <button onClick={() => setMode('none')} className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Keep</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActions;
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { ConversationTurn } from '../types';
+
+interface ConversationViewProps {
+  turns: ConversationTurn[];
+  languageA: string;
+  languageB: string;
+  isBusy: boolean;
+  isFlipped: boolean;
+  onSpeakTurn: (turn: ConversationTurn) => void;
+}
+
+const ConversationView: React.FC<ConversationViewProps> = ({ turns, languageA, languageB, isBusy, isFlipped, onSpeakTurn }) => {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+    }
+  }, [turns.length, isBusy]);
+
+  return (
+    <div className={`flex-1 min-h-0 bg-slate-900/40 border border-slate-800/50 rounded-2xl flex flex-col overflow-hidden transition-transform duration-500 ${isFlipped ? 'rotate-180' : ''}`}>
+      <div ref={scrollRef} className="flex-1 overflow-y-auto no-scrollbar p-2.5 space-y-2">
+        {turns.length === 0 && !isBusy ? (
+          <div className="h-full flex flex-col items-center justify-center text-center px-6">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">{languageA} ↔ {languageB}</span>
+            <p className="text-sm text-slate-600 italic font-medium">Hold the button and speak. Each side is detected and translated automatically.</p>
+          </div>
+        ) : (
+          turns.map(turn => {
+            const isA = turn.side === 'A';
+            return (
+              <div key={turn.id} className={`flex ${isA ? 'justify-start' : 'justify-end'} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
+                <div onClick={() => onSpeakTurn(turn)} className={`max-w-[85%] rounded-2xl px-3 py-2 border cursor-pointer active:scale-[0.98] transition-transform ${
+                  isA
+                    ? 'bg-indigo-500/10 border-indigo-500/20 rounded-bl-sm'
+                    : 'bg-emerald-500/10 border-emerald-500/20 rounded-br-sm'
+                }`}>
+                  <div className={`text-[7px] font-black uppercase tracking-widest mb-0.5 ${isA ? 'text-indigo-400' : 'text-emerald-400'}`}>
+                    {turn.sourceLanguage} → {turn.targetLanguage}
+                  </div>
+                  <p className="text-base text-slate-100 font-extrabold leading-tight tracking-tight">{turn.translated}</p>
+                  <p className="text-[11px] text-slate-500 italic font-medium leading-snug mt-1">{turn.original}</p>
+                </div>
+              </div>
+            );
+          })
+        )}
+        {isBusy && (
+          <div className="flex justify-center py-1">
+            <div className="flex gap-1">
+              <div className="w-1.5 h-1.5 bg-indigo-500 rounded-full animate-bounce"></div>
+              <div className="w-1.5 h-1.5 bg-indigo-500 rounded-full animate-bounce [animation-delay:150ms]"></div>
+              <div className="w-1.5 h-1.5 bg-indigo-500 rounded-full animate-bounce [animation-delay:300ms]"></div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationView;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Digest, DigestPeriod, Memo } from '../types';
+import { formatPeriod, getPeriodStart, memosInPeriod } from '../services/digestService';
+import { getMemoTitle } from '../services/exportService';
+
+interface DigestViewProps {
+  digests: Digest[];
+  memos: Memo[];
+  isGenerating: boolean;
+  onGenerate: (period: DigestPeriod, periodStart: number) => void;
+  onExport: (digest: Digest) => void;
+  onDelete: (id: string) => void;
+  onOpenMemo: (memoId: string) => void;
+}
+
+const PERIOD_OPTIONS: { label: string; value: DigestPeriod }[] = [
+  { label: 'Daily', value: 'day' },
+  { label: 'Weekly', value: 'week' },
+];
+
+const actionClass = "px-2 py-1 rounded-full bg-slate-950/50 border border-slate-800 text-[8px] font-black text-slate-400 uppercase tracking-wider hover:border-indigo-500/30 hover:text-indigo-400 active:scale-95 transition-all disabled:opacity-40";
+
+const toDateInput = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const Section: React.FC<{ label: string; color: string; items: string[] }> = ({ label, color, items }) => items.length === 0 ? null : (
+  <div>
+    <div className="flex items-center gap-2 mb-1.5">
+      <div className={`w-1 h-3 rounded-full ${color}`}></div>
+      <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">{label}</span>
+    </div>
+    <ul className="space-y-1">
+      {items.map((item, i) => (
+        <li key={i} className="flex gap-2 text-slate-300 text-xs leading-relaxed font-medium">
+          <span className="text-slate-600">•</span>
+          <span>{item}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const DigestView: React.FC<DigestViewProps> = ({ digests, memos, isGenerating, onGenerate, onExport, onDelete, onOpenMemo }) => {
+  const [period, setPeriod] = useState<DigestPeriod>('day');
+  const [date, setDate] = useState(() => toDateInput(Date.now()));
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const periodStart = getPeriodStart(new Date(`${date}T12:00:00`).getTime(), period);
+  const candidateCount = memosInPeriod(memos, periodStart, period).length;
+  const existing = digests.find(d => d.period === period && d.periodStart === periodStart);
+
+  return (
+    <div className="space-y-3 pb-6">
+      <div className="p-3 bg-slate-900/60 rounded-2xl border border-slate-800 space-y-2">
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-950 rounded-lg p-0.5 border border-slate-800">
+            {PERIOD_OPTIONS.map(o => (
+              <button
+                key={o.value}
+                onClick={() => setPeriod(o.value)}
+                className={`px-2.5 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all ${period === o.value ? 'bg-indigo-500 text-white' : 'text-slate-500'}`}
+              >
+                {o.label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="flex-1 min-w-0 bg-slate-900 border border-slate-800 text-slate-300 text-[10px] font-bold rounded-lg px-2 py-1.5 focus:outline-none [color-scheme:dark]"
+            aria-label="Digest date"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[9px] font-bold text-slate-500">
+            {formatPeriod(periodStart, period)} · {candidateCount} memos
+          </span>
+          <button
+            onClick={() => onGenerate(period, periodStart)}
+            disabled={isGenerating || candidateCount === 0}
+            className="px-3 py-1.5 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest rounded-lg disabled:opacity-40 active:scale-95 transition-all"
+          >
+            {isGenerating ? 'Writing...' : existing ? 'Regenerate' : 'Generate'}
+          </button>
+        </div>
+      </div>
+
+      {digests.length === 0 ? (
+        <div className="text-center py-16 bg-slate-900/30 rounded-3xl border border-dashed border-slate-800">
+          <p className="text-slate-600 text-xs font-medium">No digests yet.</p>
+        </div>
+      ) : digests.map(digest => {
+        const expanded = expandedId === digest.id;
+        return (
+          <div key={digest.id} className="bg-slate-900/80 rounded-[2rem] shadow-xl border border-slate-800/50 overflow-hidden">
+            <button onClick={() => setExpandedId(expanded ? null : digest.id)} className="w-full p-4 text-left">
+              <div className="flex items-center gap-2 mb-0.5">
+                <span className="text-[7px] font-black text-amber-400 bg-amber-500/10 border border-amber-500/20 px-1.5 py-0.5 rounded-full uppercase">{digest.period === 'day' ? 'Daily' : 'Weekly'}</span>
+                <h3 className="text-slate-100 font-bold text-xs truncate uppercase tracking-tight">{digest.title}</h3>
+              </div>
+              <span className="text-[8px] font-black text-slate-600 uppercase tracking-wider">
+                {formatPeriod(digest.periodStart, digest.period)} · {digest.memoIds.length} memos
+              </span>
+              {!expanded && <p className="mt-1.5 text-[11px] text-slate-400 leading-snug line-clamp-2">{digest.overview}</p>}
+            </button>
+
+            {expanded && (
+              <div className="p-5 bg-slate-950/40 border-t border-slate-800/50 space-y-4 animate-in fade-in slide-in-from-top-3 duration-300">
+                <p className="text-slate-200 text-xs leading-relaxed font-medium select-text">{digest.overview}</p>
+                <Section label="Themes" color="bg-sky-500" items={digest.themes} />
+                <Section label="Decisions" color="bg-emerald-500" items={digest.decisions} />
+                <Section
+                  label="Open Action Items"
+                  color="bg-rose-500"
+                  items={digest.actionItems.map(a => `${a.task}${a.owner ? ` (@${a.owner})` : ''}${a.dueDate ? ` - due ${a.dueDate}` : ''}`)}
+                />
+                <div>
+                  <div className="flex items-center gap-2 mb-1.5">
+                    <div className="w-1 h-3 rounded-full bg-indigo-500"></div>
+                    <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Source Memos</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {digest.memoIds.map(id => {
+                      const memo = memos.find(m => m.id === id);
+                      return memo ? (
+                        <button key={id} onClick={() => onOpenMemo(id)} className={actionClass}>{getMemoTitle(memo)}</button>
+                      ) : (
+                        <span key={id} className="px-2 py-1 text-[8px] font-black text-slate-700 uppercase tracking-wider line-through">Deleted memo</span>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1.5 pt-1">
+                  <button onClick={() => onExport(digest)} className={actionClass}>Export Markdown</button>
+                  <button
+                    onClick={() => onGenerate(digest.period, digest.periodStart)}
+                    disabled={isGenerating}
+                    className={actionClass}
+                  >
+                    Regenerate
+                  </button>
+                  <button onClick={() => onDelete(digest.id)} className={`${actionClass} hover:text-red-400 hover:border-red-500/30`}>Delete</button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DigestView;
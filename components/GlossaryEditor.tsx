@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { GlossaryTerm, LogEntry } from '../types';
+import { getGlossary, saveGlossary, mergeGlossary, glossaryToCsv, parseGlossaryCsv } from '../services/glossaryService';
+import { downloadBlob } from '../services/backupService';
+import { LANGUAGES } from '../constants';
+
+interface GlossaryEditorProps {
+  addLog: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+}
+
+const inputClass = "min-w-0 flex-1 bg-slate-900 border border-slate-800 rounded-lg px-2.5 py-1.5 text-[10px] font-bold text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/40 select-text";
+const selectClass = "bg-slate-900 border border-slate-800 text-indigo-400 text-[9px] font-black uppercase tracking-widest rounded-lg px-2 py-1.5 focus:outline-none";
+const smallButtonClass = "px-2 py-1 rounded-full bg-slate-900 border border-slate-800 text-[8px] font-black text-slate-400 uppercase tracking-wider hover:text-indigo-400 active:scale-95 transition-all disabled:opacity-40";
+
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ addLog }) => {
+  const [terms, setTerms] = useState<GlossaryTerm[]>(getGlossary);
+  const [newTerm, setNewTerm] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draftLanguage, setDraftLanguage] = useState(LANGUAGES[0].value);
+  const [draftTranslation, setDraftTranslation] = useState('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const commit = (next: GlossaryTerm[]) => setTerms(saveGlossary(next));
+
+  const addTerm = (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = newTerm.trim();
+    if (!term) return;
+    commit(mergeGlossary(terms, [{ id: crypto.randomUUID(), term, translations: {} }]));
+    setNewTerm('');
+  };
+
+  const updateTerm = (id: string, patch: Partial<GlossaryTerm>) => {
+    commit(terms.map(t => t.id === id ? { ...t, ...patch } : t));
+  };
+
+  const addTranslation = (term: GlossaryTerm) => {
+    const value = draftTranslation.trim();
+    if (!value) return;
+    updateTerm(term.id, { translations: { ...term.translations, [draftLanguage]: value } });
+    setDraftTranslation('');
+  };
+
+  const removeTranslation = (term: GlossaryTerm, language: string) => {
+    const { [language]: _removed, ...translations } = term.translations;
+    updateTerm(term.id, { translations });
+  };
+
+  const exportCsv = () => {
+    downloadBlob(new Blob([glossaryToCsv(terms)], { type: 'text/csv;charset=utf-8' }), 'allanecho-glossary.csv');
+  };
+
+  const importCsv = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseGlossaryCsv(await file.text());
+      commit(mergeGlossary(terms, imported));
+      addLog({ type: 'INFO', source: 'Glossary', message: `Imported ${imported.length} glossary terms` });
+    } catch (err: any) {
+      addLog({ type: 'ERROR', source: 'Glossary', message: 'Glossary import failed', details: err.message });
+    }
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-slate-950/50 rounded-xl border border-slate-800/50">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[10px] font-semibold text-slate-400">Glossary</span>
+        <div className="flex items-center gap-1.5">
+          <button onClick={() => fileInputRef.current?.click()} className={smallButtonClass}>Import CSV</button>
+          <button onClick={exportCsv} disabled={terms.length === 0} className={smallButtonClass}>Export CSV</button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={importCsv} className="hidden" />
+        </div>
+      </div>
+      <p className="text-[8px] font-bold text-slate-600 leading-relaxed mb-2">
+        Names and jargon are spelled exactly as entered in transcripts. Add a translation to force it for that language; otherwise the term is left untranslated.
+      </p>
+
+      <form onSubmit={addTerm} className="flex gap-2 mb-2">
+        <input value={newTerm} onChange={(e) => setNewTerm(e.target.value)} placeholder="Add a term, e.g. AllanEcho" className={inputClass} />
+        <button type="submit" disabled={!newTerm.trim()} className="px-3 py-1.5 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest rounded-lg disabled:opacity-40 active:scale-95 transition-all">
+          Add
+        </button>
+      </form>
+
+      <div className="space-y-1.5 max-h-72 overflow-y-auto no-scrollbar">
+        {terms.map(term => (
+          <div key={term.id} className="rounded-lg bg-slate-900/60 border border-slate-800/60">
+            <div className="flex items-center gap-2 px-2.5 py-1.5">
+              <button onClick={() => setExpandedId(expandedId === term.id ? null : term.id)} className="flex-1 min-w-0 text-left">
+                <span className="text-[11px] font-bold text-slate-200">{term.term}</span>
+                <span className="ml-2 text-[8px] font-black text-slate-600 uppercase tracking-wider">
+                  {Object.keys(term.translations).length > 0 ? Object.keys(term.translations).join(' · ') : 'Keep as is'}
+                </span>
+              </button>
+              <button onClick={() => commit(terms.filter(t => t.id !== term.id))} className="p-1 text-slate-600 hover:text-red-500" aria-label="Remove term">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            {expandedId === term.id && (
+              <div className="px-2.5 pb-2 space-y-1.5">
+                {Object.entries(term.translations).map(([language, value]) => (
+                  <div key={language} className="flex items-center gap-2">
+                    <span className="w-20 text-[8px] font-black text-indigo-400 uppercase tracking-wider truncate">{language}</span>
+                    <span className="flex-1 text-[10px] font-bold text-slate-300 truncate">{value}</span>
+                    <button onClick={() => removeTranslation(term, language)} className="text-[8px] font-black text-slate-600 uppercase hover:text-red-400">Remove</button>
+                  </div>
+                ))}
+                <div className="flex gap-1.5">
+                  <select value={draftLanguage} onChange={(e) => setDraftLanguage(e.target.value)} className={selectClass}>
+                    {LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                  </select>
+                  <input
+                    value={draftTranslation}
+                    onChange={(e) => setDraftTranslation(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addTranslation(term)}
+                    placeholder="Forced translation"
+                    className={inputClass}
+                  />
+                  <button onClick={() => addTranslation(term)} disabled={!draftTranslation.trim()} className={smallButtonClass}>Set</button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryEditor;
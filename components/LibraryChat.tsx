@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LibraryChatTurn, LibrarySource } from '../types';
+
+interface LibraryChatProps {
+  turns: LibraryChatTurn[];
+  onAsk: (question: string) => void;
+  onOpenSource: (source: LibrarySource) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = [
+  'What did I promise the supplier?',
+  'Which action items are still open?',
+  'What did we decide about the launch?',
+];
+
+const formatDate = (timestamp: number) => new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+}).format(new Date(timestamp));
+
+const formatTime = (time: number) => `${Math.floor(time / 60)}:${Math.floor(time % 60).toString().padStart(2, '0')}`;
+
+const LibraryChat: React.FC<LibraryChatProps> = ({ turns, onAsk, onOpenSource, onClear, onClose }) => {
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const isPending = turns.some(t => t.status === 'pending');
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [turns]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = draft.trim();
+    if (!question || isPending) return;
+    onAsk(question);
+    setDraft('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[105] bg-slate-950/95 backdrop-blur-xl flex flex-col p-6 pt-[max(1.5rem,env(safe-area-inset-top))] pb-[max(1.5rem,env(safe-area-inset-bottom))] animate-in fade-in slide-in-from-bottom-4 duration-200 touch-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-black text-white">Ask Library</h2>
+        <div className="flex items-center gap-1">
+          {turns.length > 0 && (
+            <button onClick={onClear} disabled={isPending} className="px-2 py-1 text-[9px] font-black text-slate-500 uppercase tracking-widest hover:text-slate-300 disabled:opacity-40">Clear</button>
+          )}
+          <button onClick={onClose} className="p-2 text-slate-500 hover:text-white" aria-label="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto no-scrollbar space-y-4">
+        {turns.length === 0 ? (
+          <div className="py-16 text-center">
+            <p className="text-slate-500 text-xs mb-4">Ask anything about your memos. Answers cite the memos they come from.</p>
+            <div className="flex flex-col items-center gap-2">
+              {SUGGESTIONS.map(s => (
+                <button key={s} onClick={() => onAsk(s)} className="px-3 py-1.5 rounded-full bg-slate-900 border border-slate-800 text-[10px] font-bold text-slate-400 hover:text-indigo-400 hover:border-indigo-500/30 active:scale-95 transition-all">
+                  {s}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : turns.map(turn => (
+          <div key={turn.id} className="space-y-2">
+            <div className="flex justify-end">
+              <p className="max-w-[85%] px-3 py-2 rounded-2xl rounded-br-sm bg-indigo-600 text-white text-xs font-medium leading-relaxed">{turn.question}</p>
+            </div>
+            <div className="max-w-[90%] px-3 py-2 rounded-2xl rounded-bl-sm bg-slate-900/80 border border-slate-800/60">
+              {turn.status === 'pending' ? (
+                <p className="text-xs text-slate-500 italic animate-pulse">Searching your memos...</p>
+              ) : turn.status === 'error' ? (
+                <p className="text-xs text-red-400">Could not answer that right now. Check your connection and try again.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-slate-200 leading-relaxed whitespace-pre-line select-text">{turn.answer}</p>
+                  {turn.sources.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                      {turn.sources.map(source => (
+                        <button
+                          key={source.id}
+                          onClick={() => onOpenSource(source)}
+                          className="flex items-center gap-1 max-w-full px-2 py-1 rounded-full bg-slate-950/50 border border-slate-800 text-[8px] font-black text-indigo-400 uppercase tracking-wider hover:border-indigo-500/30 active:scale-95 transition-all"
+                        >
+                          <span className="truncate">{source.memoTitle}</span>
+                          <span className="text-slate-500 flex-shrink-0">{formatDate(source.timestamp)}{source.start !== undefined && ` · ${formatTime(source.start)}`}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={submit} className="flex gap-2 mt-3">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Ask about your memos"
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 text-xs font-medium text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/40 select-text"
+        />
+        <button type="submit" disabled={!draft.trim() || isPending} className="px-4 py-2 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest rounded-xl disabled:opacity-40 active:scale-95 transition-all">
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LibraryChat;
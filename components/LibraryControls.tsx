@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { LibraryFilters, LibrarySort, DurationFilter, MemoStateFilter } from '../types';
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+  query: '',
+  dateFrom: '',
+  dateTo: '',
+  duration: 'any',
+  state: 'all',
+  sort: 'newest',
+  tag: '',
+  groupByFolder: false,
+};
+
+const SORT_OPTIONS: { label: string; value: LibrarySort }[] = [
+  { label: 'Newest', value: 'newest' },
+  { label: 'Oldest', value: 'oldest' },
+  { label: 'Longest', value: 'longest' },
+];
+
+const DURATION_OPTIONS: { label: string; value: DurationFilter }[] = [
+  { label: 'Any length', value: 'any' },
+  { label: 'Under 1 min', value: 'short' },
+  { label: '1 - 5 min', value: 'medium' },
+  { label: 'Over 5 min', value: 'long' },
+];
+
+const STATE_OPTIONS: { label: string; value: MemoStateFilter }[] = [
+  { label: 'All states', value: 'all' },
+  { label: 'Errors', value: 'error' },
+  { label: 'Processing', value: 'processing' },
+];
+
+interface LibraryControlsProps {
+  filters: LibraryFilters;
+  onChange: (filters: LibraryFilters) => void;
+  tags: string[];
+}
+
+const selectClass = "bg-slate-900 border border-slate-800 text-indigo-400 text-[9px] font-black uppercase tracking-widest rounded-lg px-2 py-1.5 focus:outline-none";
+const dateClass = "flex-1 min-w-0 bg-slate-900 border border-slate-800 text-slate-300 text-[10px] font-bold rounded-lg px-2 py-1.5 focus:outline-none [color-scheme:dark]";
+
+const LibraryControls: React.FC<LibraryControlsProps> = ({ filters, onChange, tags }) => {
+  const [showFilters, setShowFilters] = useState(false);
+
+  const update = <K extends keyof LibraryFilters>(key: K, value: LibraryFilters[K]) => {
+    onChange({ ...filters, [key]: value });
+  };
+
+  const activeFilterCount =
+    (filters.dateFrom ? 1 : 0) +
+    (filters.dateTo ? 1 : 0) +
+    (filters.duration !== 'any' ? 1 : 0) +
+    (filters.state !== 'all' ? 1 : 0);
+
+  return (
+    <div className="px-1 pb-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 text-slate-600 absolute left-3 top-1/2 -translate-y-1/2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => update('query', e.target.value)}
+            placeholder="Search transcripts & summaries"
+            className="w-full bg-slate-900 border border-slate-800 rounded-xl pl-8 pr-3 py-2 text-xs text-slate-200 placeholder:text-slate-600 font-medium focus:outline-none focus:border-indigo-500/40 select-text"
+          />
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`relative p-2 rounded-xl border transition-all ${showFilters || activeFilterCount > 0 ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-400' : 'bg-slate-900 border-slate-800 text-slate-500'}`}
+          aria-label="Filters"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+          </svg>
+          {activeFilterCount > 0 && (
+            <span className="absolute -top-1 -right-1 w-3.5 h-3.5 bg-indigo-500 text-white text-[7px] font-black rounded-full flex items-center justify-center">{activeFilterCount}</span>
+          )}
+        </button>
+        <button
+          onClick={() => update('groupByFolder', !filters.groupByFolder)}
+          className={`p-2 rounded-xl border transition-all ${filters.groupByFolder ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-400' : 'bg-slate-900 border-slate-800 text-slate-500'}`}
+          aria-label="Group by folder"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+          </svg>
+        </button>
+        <select value={filters.sort} onChange={(e) => update('sort', e.target.value as LibrarySort)} className={selectClass}>
+          {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => update('tag', filters.tag === tag ? '' : tag)}
+              className={`flex-shrink-0 px-2 py-0.5 rounded-full border text-[8px] font-black uppercase tracking-widest transition-all ${
+                filters.tag === tag ? 'bg-indigo-500 border-indigo-400 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:text-indigo-400'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showFilters && (
+        <div className="p-3 bg-slate-900/60 rounded-2xl border border-slate-800 space-y-2 animate-in fade-in slide-in-from-top-2 duration-200">
+          <div className="flex items-center gap-2">
+            <input type="date" value={filters.dateFrom} onChange={(e) => update('dateFrom', e.target.value)} className={dateClass} aria-label="From date" />
+            <span className="text-[8px] font-black text-slate-600 uppercase">to</span>
+            <input type="date" value={filters.dateTo} onChange={(e) => update('dateTo', e.target.value)} className={dateClass} aria-label="To date" />
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={filters.duration} onChange={(e) => update('duration', e.target.value as DurationFilter)} className={`${selectClass} flex-1`}>
+              {DURATION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <select value={filters.state} onChange={(e) => update('state', e.target.value as MemoStateFilter)} className={`${selectClass} flex-1`}>
+              {STATE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+          {activeFilterCount > 0 && (
+            <button
+              onClick={() => onChange({ ...DEFAULT_LIBRARY_FILTERS, query: filters.query, sort: filters.sort, tag: filters.tag, groupByFolder: filters.groupByFolder })}
+              className="w-full py-1.5 text-[9px] font-black text-slate-500 uppercase tracking-widest hover:text-slate-300"
+            >
+              Clear Filters
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryControls;
@@ -1,20 +1,78 @@
 
-import React, { useState, useRef } from 'react';
-import { Memo } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Memo, ReprocessScope } from '../types';
+import { getAudio } from '../services/storageService';
+import { getSpeakers, getSpeakerName, applySpeakerNames } from '../services/speakerUtils';
+import { EXPORT_FORMATS, ExportFormat, copyMemoToClipboard, exportMemo, getMemoTitle } from '../services/exportService';
+import { downloadBlob } from '../services/backupService';
+import { normalizeTag } from '../services/searchService';
+import { editTranscript, restoreTranscriptRevision, transcriptFromSegments, undoTranscriptEdit } from '../services/transcriptRevisions';
+import HighlightedText from './HighlightedText';
+
+const REPROCESS_OPTIONS: { label: string; scope: ReprocessScope }[] = [
+  { label: 'Redo All', scope: 'all' },
+  { label: 'Transcript Only', scope: 'transcript' },
+  { label: 'Summary Only', scope: 'summary' },
+];
+
+const SPEAKER_COLORS = ['text-sky-400', 'text-amber-400', 'text-emerald-400', 'text-rose-400', 'text-violet-400'];
 
 interface MemoCardProps {
   memo: Memo;
   onDelete: (id: string) => void;
+  onUpdate: (id: string, patch: Partial<Memo>) => void;
+  onReprocess: (id: string, scope: ReprocessScope) => void;
+  highlight?: string;
+  focus?: { start?: number; nonce: number }; // scroll here, expand, and play from `start` if given
+  selecting?: boolean;
+  selected?: boolean;
+  onToggleSelect?: (id: string) => void;
+  onNeedWaveform?: (id: string) => void; // memos saved before waveforms existed are backfilled lazily
 }
 
-const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
+const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete, onUpdate, onReprocess, highlight, focus, selecting, selected, onToggleSelect, onNeedWaveform }) => {
   const [expanded, setExpanded] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [speakerDraft, setSpeakerDraft] = useState('');
+  const [showReprocess, setShowReprocess] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [tagDraft, setTagDraft] = useState('');
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [transcriptDraft, setTranscriptDraft] = useState('');
+  const [segmentDrafts, setSegmentDrafts] = useState<string[]>([]);
+  const [showRevisions, setShowRevisions] = useState(false);
+  
+  const [audioSource, setAudioSource] = useState<string | null>(null);
   
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const audioSource = `data:${memo.mimeType};base64,${memo.audioBase64}`;
+  const cardRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getAudio(memo.id).then(blob => {
+      if (cancelled) return;
+      if (!blob) {
+        setAudioSource(null);
+        return;
+      }
+      objectUrl = URL.createObjectURL(blob);
+      setAudioSource(objectUrl);
+    }).catch(err => console.warn("Audio load failed", err));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+    // Size changes when Compact replaces the audio or retention removes it.
+  }, [memo.id, memo.audioSize]);
+
+  useEffect(() => {
+    if (!memo.waveform && memo.audioSize > 0 && !memo.audioRemovedAt) onNeedWaveform?.(memo.id);
+  }, [memo.id, memo.waveform]);
 
   const formatDate = (timestamp: number) => {
     return new Intl.DateTimeFormat('en-US', {
@@ -31,9 +89,7 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const calculateSize = (base64String: string) => {
-    const padding = (base64String.match(/=/g) || []).length;
-    const sizeInBytes = (base64String.length * 3) / 4 - padding;
+  const calculateSize = (sizeInBytes: number) => {
     if (sizeInBytes < 1024) return `${sizeInBytes.toFixed(0)} B`;
     if (sizeInBytes < 1024 * 1024) return `${(sizeInBytes / 1024).toFixed(1)} KB`;
     return `${(sizeInBytes / (1024 * 1024)).toFixed(1)} MB`;
@@ -41,7 +97,7 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
 
   const togglePlay = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (memo.isProcessing) return;
+    if (memo.isProcessing || !audioSource) return;
     
     if (audioRef.current) {
       if (isPlaying) {
@@ -76,8 +132,55 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
     setCurrentTime(0);
   };
 
+  const seekTo = (seconds: number) => {
+    if (!audioRef.current || !audioSource) return;
+    audioRef.current.currentTime = seconds;
+    setCurrentTime(seconds);
+    if (!isPlaying) {
+      audioRef.current.play();
+      setIsPlaying(true);
+    }
+  };
+
+  useEffect(() => {
+    if (!focus) return;
+    cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setExpanded(true);
+  }, [focus?.nonce]);
+
+  // Separate from the scroll so a jump requested before the audio loaded still happens.
+  useEffect(() => {
+    if (focus?.start !== undefined && audioSource) seekTo(focus.start);
+  }, [focus?.nonce, audioSource]);
+
+  const speakers = getSpeakers(memo.segments);
+  const named = (text: string) => applySpeakerNames(text, memo.speakerNames);
+  const speakerColor = (label: string) => SPEAKER_COLORS[Math.max(0, speakers.indexOf(label)) % SPEAKER_COLORS.length];
+
+  const startRenaming = (label: string) => {
+    setEditingSpeaker(label);
+    setSpeakerDraft(memo.speakerNames?.[label] || '');
+  };
+
+  const commitRename = () => {
+    if (!editingSpeaker) return;
+    const speakerNames = { ...memo.speakerNames };
+    if (speakerDraft.trim()) {
+      speakerNames[editingSpeaker] = speakerDraft.trim();
+    } else {
+      delete speakerNames[editingSpeaker];
+    }
+    onUpdate(memo.id, { speakerNames });
+    setEditingSpeaker(null);
+  };
+
+  const activeSegmentIndex = isPlaying && memo.segments
+    ? memo.segments.findIndex(seg => currentTime >= seg.start && currentTime < seg.end)
+    : -1;
+
   const handleDownload = (e: React.MouseEvent) => {
     e.stopPropagation();
+    if (!audioSource) return;
     const link = document.createElement('a');
     link.href = audioSource;
     link.download = `echo-memo-${memo.timestamp}.${memo.mimeType.split('/')[1] || 'webm'}`;
@@ -86,11 +189,64 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
     document.body.removeChild(link);
   };
 
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (!tag || memo.tags?.includes(tag)) return;
+    onUpdate(memo.id, { tags: [...(memo.tags || []), tag] });
+  };
+
+  const removeTag = (tag: string) => {
+    onUpdate(memo.id, { tags: (memo.tags || []).filter(t => t !== tag) });
+  };
+
+  const hasSegments = !!memo.segments && memo.segments.length > 0;
+  const revisions = memo.transcriptRevisions || [];
+
+  const startEditingTranscript = () => {
+    setTranscriptDraft(memo.transcript);
+    setSegmentDrafts((memo.segments || []).map(seg => seg.text));
+    setShowRevisions(false);
+    setIsEditingTranscript(true);
+  };
+
+  const saveTranscript = () => {
+    if (hasSegments) {
+      const segments = memo.segments!
+        .map((seg, i) => ({ ...seg, text: segmentDrafts[i].trim() }))
+        .filter(seg => seg.text);
+      if (segments.every((seg, i) => seg.text === memo.segments![i]?.text) && segments.length === memo.segments!.length) {
+        setIsEditingTranscript(false);
+        return;
+      }
+      onUpdate(memo.id, editTranscript(memo, transcriptFromSegments(segments), segments));
+    } else if (transcriptDraft.trim() && transcriptDraft.trim() !== memo.transcript) {
+      onUpdate(memo.id, editTranscript(memo, transcriptDraft.trim()));
+    }
+    setIsEditingTranscript(false);
+  };
+
+  const pendingSuggestions = (memo.suggestedTags || []).filter(t => !memo.tags?.includes(normalizeTag(t)));
+
+  const handleExport = (format: ExportFormat) => {
+    const { blob, filename } = exportMemo(memo, format);
+    downloadBlob(blob, filename);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await copyMemoToClipboard(memo);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.warn("Clipboard write failed", err);
+    }
+  };
+
   return (
-    <div className={`bg-slate-900/80 rounded-[2rem] shadow-xl border border-slate-800/50 mb-3 hover:border-slate-700/50 transition-all group overflow-hidden ${memo.isProcessing ? 'opacity-60' : ''}`}>
+    <div ref={cardRef} className={`bg-slate-900/80 rounded-[2rem] shadow-xl border mb-3 ${selected || focus ? 'border-indigo-500/50' : 'border-slate-800/50'} hover:border-slate-700/50 transition-all group overflow-hidden ${memo.isProcessing ? 'opacity-60' : ''}`}>
       <audio 
         ref={audioRef} 
-        src={audioSource} 
+        src={audioSource ?? undefined} 
         onTimeUpdate={onTimeUpdate} 
         onLoadedMetadata={onLoadedMetadata} 
         onEnded={onEnded}
@@ -98,6 +254,17 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
       />
       
       <div className="p-4 flex items-center gap-3">
+        {selecting && (
+          <button
+            onClick={() => onToggleSelect?.(memo.id)}
+            className={`w-5 h-5 flex-shrink-0 rounded-md border-2 flex items-center justify-center transition-all ${selected ? 'bg-indigo-500 border-indigo-400 text-white' : 'border-slate-700 text-transparent'}`}
+            aria-label={selected ? 'Deselect memo' : 'Select memo'}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+            </svg>
+          </button>
+        )}
         {/* Playback Button */}
         <button 
           onClick={togglePlay}
@@ -128,22 +295,61 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
         </button>
 
         {/* Content Info */}
-        <div onClick={() => !memo.isProcessing && setExpanded(!expanded)} className={`cursor-pointer flex-grow min-w-0 ${memo.isProcessing ? 'cursor-wait' : ''}`}>
+        <div onClick={() => selecting ? onToggleSelect?.(memo.id) : !memo.isProcessing && setExpanded(!expanded)} className={`cursor-pointer flex-grow min-w-0 ${memo.isProcessing ? 'cursor-wait' : ''}`}>
           <div className="flex items-center gap-2 mb-0.5">
+            {memo.pinned && (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-2.5 w-2.5 flex-shrink-0 text-amber-400" viewBox="0 0 20 20" fill="currentColor" aria-label="Pinned">
+                <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+              </svg>
+            )}
             <h3 className={`text-slate-100 font-bold text-xs truncate uppercase tracking-tight ${memo.isProcessing ? 'animate-pulse text-slate-500' : ''}`}>
-              {memo.isProcessing ? 'Processing...' : `Memo_${memo.id.slice(0, 4)}`}
+              {memo.isProcessing ? 'Processing...' : <HighlightedText text={getMemoTitle(memo)} query={highlight} />}
             </h3>
             {memo.error && <span className="text-[7px] font-black bg-red-500 text-white px-1 py-0.5 rounded-full uppercase">Err</span>}
+            {memo.isQueued && <span className="text-[7px] font-black bg-amber-500/20 text-amber-400 border border-amber-500/30 px-1 py-0.5 rounded-full uppercase">Queued</span>}
           </div>
+          {memo.isProcessing && memo.segmentProgress && memo.segmentProgress.total > 1 && (
+            <div className="flex items-center gap-2 mt-1">
+              <div className="flex-1 h-0.5 bg-slate-950 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(memo.segmentProgress.completed / memo.segmentProgress.total) * 100}%` }}></div>
+              </div>
+              <span className="text-[8px] font-black text-indigo-400 uppercase tracking-wider whitespace-nowrap">
+                Segment {Math.min(memo.segmentProgress.completed + 1, memo.segmentProgress.total)} of {memo.segmentProgress.total}
+              </span>
+            </div>
+          )}
           <div className="flex items-center gap-2 mt-1 flex-wrap">
             <span className="text-[8px] font-black text-slate-600 uppercase tracking-wider">{formatDate(memo.timestamp)}</span>
             <span className="w-0.5 h-0.5 bg-slate-800 rounded-full"></span>
             <span className="text-[8px] font-black text-indigo-500/70 uppercase tracking-widest">{formatTime(duration || memo.duration)}</span>
             <span className="w-0.5 h-0.5 bg-slate-800 rounded-full"></span>
-            <span className="text-[8px] font-bold text-slate-500 bg-slate-950/50 px-1.5 py-0.5 rounded uppercase tracking-tighter">
-              {calculateSize(memo.audioBase64)}
-            </span>
+            {memo.audioRemovedAt ? (
+              <span className="text-[8px] font-bold text-slate-600 bg-slate-950/50 px-1.5 py-0.5 rounded uppercase tracking-tighter" title="Audio removed by the retention policy">
+                Text only
+              </span>
+            ) : (
+              <span className="text-[8px] font-bold text-slate-500 bg-slate-950/50 px-1.5 py-0.5 rounded uppercase tracking-tighter">
+                {calculateSize(memo.audioSize)}
+              </span>
+            )}
+            {memo.folder && (
+              <span className="text-[8px] font-black text-sky-400/80 bg-sky-500/10 px-1.5 py-0.5 rounded uppercase tracking-tighter truncate max-w-[6rem]">{memo.folder}</span>
+            )}
+            {memo.tags?.map(tag => (
+              <span key={tag} className="text-[8px] font-black text-indigo-400/80 uppercase tracking-wider">#{tag}</span>
+            ))}
           </div>
+          {memo.waveform && (
+            <div className="flex items-center gap-px h-4 mt-1.5" aria-hidden="true">
+              {memo.waveform.map((level, i) => (
+                <div
+                  key={i}
+                  className={`flex-1 rounded-full ${i / memo.waveform!.length < currentTime / (duration || memo.duration) ? 'bg-indigo-400' : 'bg-slate-700'}`}
+                  style={{ height: `${Math.max(12, level * 100)}%` }}
+                ></div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Summary Button */}
@@ -163,7 +369,26 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
         </button>
 
         {/* Mini Actions */}
-        <div className="flex items-center opacity-40 hover:opacity-100 transition-opacity">
+        <div className={`flex items-center transition-opacity ${memo.error ? 'opacity-100' : 'opacity-40 hover:opacity-100'}`}>
+          <button
+            onClick={() => onUpdate(memo.id, { pinned: !memo.pinned })}
+            className={`p-2 transition-colors ${memo.pinned ? 'text-amber-400' : 'text-slate-600 hover:text-amber-400'}`}
+            aria-label={memo.pinned ? 'Unpin' : 'Pin to top'}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill={memo.pinned ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+            </svg>
+          </button>
+          <button 
+            onClick={() => setShowReprocess(!showReprocess)}
+            disabled={memo.isProcessing || memo.isQueued}
+            className={`p-2 transition-colors disabled:opacity-30 ${memo.error ? 'text-red-400 hover:text-red-300' : showReprocess ? 'text-indigo-400' : 'text-slate-600 hover:text-indigo-400'}`}
+            aria-label="Reprocess"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+          </button>
           <button 
             onClick={() => onDelete(memo.id)}
             className="p-2 text-slate-600 hover:text-red-500 transition-colors"
@@ -175,6 +400,21 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
         </div>
       </div>
 
+      {showReprocess && !memo.isProcessing && (
+        <div className="px-4 pb-3 flex items-center gap-1.5 animate-in fade-in slide-in-from-top-2 duration-200">
+          <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest mr-1">Reprocess</span>
+          {REPROCESS_OPTIONS.filter(option => !memo.audioRemovedAt || option.scope === 'summary').map(option => (
+            <button
+              key={option.scope}
+              onClick={() => { setShowReprocess(false); onReprocess(memo.id, option.scope); }}
+              className="px-2 py-1 rounded-full bg-slate-950/50 border border-slate-800 text-[8px] font-black text-slate-400 uppercase tracking-wider hover:border-indigo-500/30 hover:text-indigo-400 active:scale-95 transition-all"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Modern Progress Bar */}
       <div className={`h-0.5 bg-slate-950 relative ${isPlaying ? 'opacity-100' : 'opacity-0 group-hover:opacity-20'} transition-opacity`}>
         <div 
@@ -184,7 +424,7 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
       </div>
 
       {/* AI Expanded Intel */}
-      {(expanded || memo.isProcessing) && (
+      {(expanded || memo.isProcessing || !!highlight?.trim()) && (
         <div className="p-5 bg-slate-950/40 border-t border-slate-800/50 animate-in fade-in slide-in-from-top-3 duration-500">
           <div className="space-y-4">
             <div>
@@ -194,21 +434,258 @@ const MemoCard: React.FC<MemoCardProps> = ({ memo, onDelete }) => {
                     <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Abstract</span>
                 </div>
                 {!memo.isProcessing && (
-                    <button onClick={handleDownload} className="text-[9px] font-bold text-indigo-400 uppercase tracking-widest hover:text-indigo-300">Save Raw</button>
+                  <div className="flex items-center gap-3">
+                    <button onClick={() => setShowExport(!showExport)} className={`text-[9px] font-bold uppercase tracking-widest ${showExport ? 'text-indigo-300' : 'text-indigo-400 hover:text-indigo-300'}`}>Export</button>
+                    {audioSource && <button onClick={handleDownload} className="text-[9px] font-bold text-indigo-400 uppercase tracking-widest hover:text-indigo-300">Save Raw</button>}
+                  </div>
                 )}
               </div>
+              {showExport && !memo.isProcessing && (
+                <div className="flex flex-wrap items-center gap-1.5 mb-3 animate-in fade-in slide-in-from-top-2 duration-200">
+                  {EXPORT_FORMATS.map(option => (
+                    <button
+                      key={option.format}
+                      onClick={() => handleExport(option.format)}
+                      className="px-2 py-1 rounded-full bg-slate-950/50 border border-slate-800 text-[8px] font-black text-slate-400 uppercase tracking-wider hover:border-indigo-500/30 hover:text-indigo-400 active:scale-95 transition-all"
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={handleCopy}
+                    className={`px-2 py-1 rounded-full border text-[8px] font-black uppercase tracking-wider active:scale-95 transition-all ${
+                      copied ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-slate-950/50 border-slate-800 text-slate-400 hover:border-indigo-500/30 hover:text-indigo-400'
+                    }`}
+                  >
+                    {copied ? 'Copied' : 'Copy Text'}
+                  </button>
+                </div>
+              )}
               <p className={`text-slate-200 text-xs leading-relaxed font-medium ${memo.isProcessing ? 'text-slate-600 italic' : ''}`}>
-                {memo.summary}
+                <HighlightedText text={named(memo.summary)} query={highlight} />
               </p>
             </div>
+            {!memo.isProcessing && memo.keyPoints && memo.keyPoints.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="w-1 h-3 rounded-full bg-emerald-500"></div>
+                  <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Key Points</span>
+                </div>
+                <ul className="space-y-1">
+                  {memo.keyPoints.map((point, i) => (
+                    <li key={i} className="flex gap-2 text-slate-300 text-xs leading-relaxed font-medium">
+                      <span className="text-emerald-500/70">•</span>
+                      <span><HighlightedText text={named(point)} query={highlight} /></span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {!memo.isProcessing && memo.actionItems && memo.actionItems.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="w-1 h-3 rounded-full bg-rose-500"></div>
+                  <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Action Items</span>
+                </div>
+                <ul className="space-y-1.5">
+                  {memo.actionItems.map((item, i) => (
+                    <li key={i} className="flex gap-2 items-start">
+                      <div className="w-3 h-3 mt-0.5 flex-shrink-0 rounded border border-rose-500/40"></div>
+                      <div className="min-w-0">
+                        <p className="text-slate-200 text-xs leading-relaxed font-medium">{named(item.task)}</p>
+                        {(item.owner || item.dueDate) && (
+                          <div className="flex items-center gap-2 mt-0.5">
+                            {item.owner && <span className="text-[8px] font-black text-rose-400/80 uppercase tracking-wider">@{named(item.owner)}</span>}
+                            {item.dueDate && <span className="text-[8px] font-black text-slate-500 uppercase tracking-wider">Due {item.dueDate}</span>}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {!memo.isProcessing && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                {memo.tags?.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => removeTag(tag)}
+                    className="text-[8px] font-black text-indigo-400 bg-indigo-500/10 border border-indigo-500/20 px-2 py-0.5 rounded-full uppercase tracking-widest hover:border-red-500/30 hover:text-red-400"
+                    aria-label={`Remove tag ${tag}`}
+                  >
+                    #{tag} ×
+                  </button>
+                ))}
+                {pendingSuggestions.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => addTag(tag)}
+                    className="text-[8px] font-black text-slate-500 border border-dashed border-slate-700 px-2 py-0.5 rounded-full uppercase tracking-widest hover:border-indigo-500/40 hover:text-indigo-400"
+                    aria-label={`Accept suggested tag ${tag}`}
+                  >
+                    + #{tag}
+                  </button>
+                ))}
+                <input
+                  value={tagDraft}
+                  onChange={(e) => setTagDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      addTag(tagDraft);
+                      setTagDraft('');
+                    }
+                  }}
+                  placeholder="+ tag"
+                  className="w-16 bg-transparent border-b border-slate-800 px-1 py-0.5 text-[9px] font-bold text-slate-300 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/40 select-text"
+                />
+              </div>
+            )}
+            {!memo.isProcessing && speakers.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="w-1 h-3 rounded-full bg-sky-500"></div>
+                  <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Speakers</span>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {speakers.map(label => editingSpeaker === label ? (
+                    <input
+                      key={label}
+                      autoFocus
+                      value={speakerDraft}
+                      onChange={(e) => setSpeakerDraft(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingSpeaker(null);
+                      }}
+                      placeholder={label}
+                      className="w-28 bg-slate-950 border border-indigo-500/40 rounded-full px-2.5 py-1 text-[10px] font-bold text-slate-200 focus:outline-none select-text"
+                    />
+                  ) : (
+                    <button
+                      key={label}
+                      onClick={() => startRenaming(label)}
+                      className="flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-950/50 border border-slate-800 hover:border-slate-700"
+                    >
+                      <span className={`text-[10px] font-bold ${speakerColor(label)}`}>{getSpeakerName(label, memo.speakerNames)}</span>
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-2.5 w-2.5 text-slate-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                      </svg>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             <div>
-              <div className="flex items-center gap-2 mb-2">
-                <div className={`w-1 h-3 rounded-full ${memo.isProcessing ? 'bg-indigo-500/50 animate-pulse' : 'bg-indigo-500'}`}></div>
-                <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Source Transcript</span>
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <div className={`w-1 h-3 rounded-full ${memo.isProcessing ? 'bg-indigo-500/50 animate-pulse' : 'bg-indigo-500'}`}></div>
+                  <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Source Transcript</span>
+                  {memo.transcriptEditedAt && <span className="text-[7px] font-black text-amber-400 bg-amber-500/10 px-1 py-0.5 rounded uppercase">Edited</span>}
+                </div>
+                {!memo.isProcessing && !memo.isQueued && (
+                  isEditingTranscript ? (
+                    <div className="flex items-center gap-3">
+                      <button onClick={() => setIsEditingTranscript(false)} className="text-[9px] font-bold text-slate-500 uppercase tracking-widest hover:text-slate-300">Cancel</button>
+                      <button onClick={saveTranscript} className="text-[9px] font-bold text-indigo-400 uppercase tracking-widest hover:text-indigo-300">Save</button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-3">
+                      {revisions.length > 0 && (
+                        <>
+                          <button onClick={() => onUpdate(memo.id, undoTranscriptEdit(memo))} className="text-[9px] font-bold text-indigo-400 uppercase tracking-widest hover:text-indigo-300">Undo</button>
+                          <button onClick={() => setShowRevisions(!showRevisions)} className={`text-[9px] font-bold uppercase tracking-widest ${showRevisions ? 'text-indigo-300' : 'text-indigo-400 hover:text-indigo-300'}`}>
+                            History ({revisions.length})
+                          </button>
+                        </>
+                      )}
+                      <button onClick={startEditingTranscript} className="text-[9px] font-bold text-indigo-400 uppercase tracking-widest hover:text-indigo-300">Edit</button>
+                    </div>
+                  )
+                )}
               </div>
-              <p className={`text-slate-500 text-xs italic leading-relaxed font-medium ${memo.isProcessing ? 'animate-pulse text-slate-700' : ''}`}>
-                {memo.transcript}
-              </p>
+              {memo.summaryOutdated && !isEditingTranscript && !memo.isProcessing && !memo.isQueued && (
+                <button
+                  onClick={() => onReprocess(memo.id, 'summary')}
+                  className="mb-2 px-2 py-1 rounded-full bg-amber-500/10 border border-amber-500/30 text-[8px] font-black text-amber-400 uppercase tracking-wider hover:bg-amber-500/20 active:scale-95 transition-all"
+                >
+                  Re-summarize from edited transcript
+                </button>
+              )}
+              {showRevisions && !isEditingTranscript && revisions.length > 0 && (
+                <div className="mb-3 space-y-1.5 animate-in fade-in slide-in-from-top-2 duration-200">
+                  {revisions.map((revision, i) => ({ revision, i })).reverse().map(({ revision, i }) => (
+                    <div key={i} className="flex items-start gap-2 p-2 rounded-lg bg-slate-950/60 border border-slate-800/60">
+                      <div className="flex-1 min-w-0">
+                        <span className="text-[8px] font-black text-slate-500 uppercase tracking-wider">
+                          {revision.editedAt ? `Edit · ${formatDate(revision.editedAt)}` : i === 0 ? 'Original AI transcript' : 'AI transcript'}
+                        </span>
+                        <p className="text-[10px] text-slate-400 leading-snug line-clamp-2">{named(revision.transcript)}</p>
+                      </div>
+                      <button
+                        onClick={() => { onUpdate(memo.id, restoreTranscriptRevision(memo, i)); setShowRevisions(false); }}
+                        className="flex-shrink-0 text-[8px] font-black text-indigo-400 uppercase tracking-wider hover:text-indigo-300"
+                      >
+                        Restore
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {isEditingTranscript ? (
+                hasSegments ? (
+                  <div className="space-y-1">
+                    {memo.segments!.map((seg, i) => (
+                      <div key={i} className="flex gap-2 items-start">
+                        <span className="text-[9px] font-mono font-black pt-1.5 flex-shrink-0 text-slate-600">{formatTime(seg.start)}</span>
+                        {seg.speaker && (
+                          <span className={`text-xs font-black pt-1 flex-shrink-0 ${speakerColor(seg.speaker)}`}>{getSpeakerName(seg.speaker, memo.speakerNames)}:</span>
+                        )}
+                        <textarea
+                          value={segmentDrafts[i] ?? ''}
+                          onChange={(e) => setSegmentDrafts(prev => prev.map((d, j) => j === i ? e.target.value : d))}
+                          rows={Math.max(1, Math.ceil((segmentDrafts[i] ?? '').length / 48))}
+                          className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs leading-relaxed font-medium text-slate-200 focus:outline-none focus:border-indigo-500/40 resize-none select-text"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <textarea
+                    value={transcriptDraft}
+                    onChange={(e) => setTranscriptDraft(e.target.value)}
+                    rows={8}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs leading-relaxed font-medium text-slate-200 focus:outline-none focus:border-indigo-500/40 select-text"
+                  />
+                )
+              ) : !memo.isProcessing && hasSegments ? (
+                <div className="space-y-0.5">
+                  {memo.segments!.map((seg, i) => (
+                    <button
+                      key={i}
+                      onClick={() => seekTo(seg.start)}
+                      className={`w-full flex gap-2 text-left px-1.5 py-1 rounded-lg transition-colors ${
+                        i === activeSegmentIndex ? 'bg-indigo-500/15 text-slate-200' : 'text-slate-500 hover:bg-slate-900'
+                      }`}
+                    >
+                      <span className={`text-[9px] font-mono font-black pt-0.5 flex-shrink-0 ${i === activeSegmentIndex ? 'text-indigo-400' : 'text-slate-600'}`}>
+                        {formatTime(seg.start)}
+                      </span>
+                      <span className="text-xs leading-relaxed font-medium">
+                        {seg.speaker && (
+                          <span className={`font-black mr-1.5 ${speakerColor(seg.speaker)}`}>{getSpeakerName(seg.speaker, memo.speakerNames)}:</span>
+                        )}
+                        <HighlightedText text={seg.text} query={highlight} />
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className={`text-slate-500 text-xs italic leading-relaxed font-medium whitespace-pre-line ${memo.isProcessing ? 'animate-pulse text-slate-700' : ''}`}>
+                  <HighlightedText text={named(memo.transcript)} query={highlight} />
+                </p>
+              )}
             </div>
           </div>
         </div>
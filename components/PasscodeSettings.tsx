@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { AUTO_LOCK_OPTIONS } from '../services/cryptoService';
+
+const MIN_PASSCODE_LENGTH = 4;
+
+type Mode = 'idle' | 'enable' | 'change' | 'disable';
+
+interface PasscodeSettingsProps {
+  isEnabled: boolean;
+  autoLockMinutes: number;
+  onEnable: (passcode: string) => Promise<void>;
+  onChange: (current: string, next: string) => Promise<void>;
+  onDisable: (current: string) => Promise<void>;
+  onAutoLockChange: (minutes: number) => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 text-[11px] font-bold text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/40 select-text";
+const selectClass = "bg-slate-900 border border-slate-800 text-indigo-400 text-[9px] font-black uppercase tracking-widest rounded-lg px-2 py-1.5 focus:outline-none";
+
+const PasscodeSettings: React.FC<PasscodeSettingsProps> = ({ isEnabled, autoLockMinutes, onEnable, onChange, onDisable, onAutoLockChange }) => {
+  const [mode, setMode] = useState<Mode>('idle');
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reset = (nextMode: Mode = 'idle') => {
+    setMode(nextMode);
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+    setError(null);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode !== 'disable') {
+      if (next.length < MIN_PASSCODE_LENGTH) return setError(`Use at least ${MIN_PASSCODE_LENGTH} characters`);
+      if (next !== confirm) return setError('Passcodes do not match');
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (mode === 'enable') await onEnable(next);
+      else if (mode === 'change') await onChange(current, next);
+      else if (mode === 'disable') await onDisable(current);
+      reset();
+    } catch (err: any) {
+      setError(err?.message?.startsWith('LOCK_INVALID') ? 'Incorrect passcode' : 'Could not update the vault');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-slate-950/50 rounded-xl border border-slate-800/50">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[10px] font-semibold text-slate-400">Passcode Lock</span>
+        <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full border ${isEnabled ? 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20' : 'text-slate-500 bg-slate-900 border-slate-800'}`}>
+          {isEnabled ? 'Encrypted' : 'Off'}
+        </span>
+      </div>
+
+      {mode === 'idle' ? (
+        <div className="space-y-2">
+          {isEnabled ? (
+            <div className="flex gap-2">
+              <button onClick={() => reset('change')} className="flex-1 py-2 bg-slate-900 text-slate-300 text-[9px] font-black uppercase tracking-widest rounded-lg border border-slate-800 active:scale-95 transition-all">
+                Change
+              </button>
+              <button onClick={() => reset('disable')} className="flex-1 py-2 bg-slate-900 text-red-400 text-[9px] font-black uppercase tracking-widest rounded-lg border border-slate-800 active:scale-95 transition-all">
+                Remove
+              </button>
+            </div>
+          ) : (
+            <button onClick={() => reset('enable')} className="w-full py-2 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest rounded-lg active:scale-95 transition-all">
+              Set Passcode
+            </button>
+          )}
+          {isEnabled && (
+            <div className="flex justify-between items-center">
+              <span className="text-[9px] font-bold text-slate-500">Auto-lock after</span>
+              <select value={autoLockMinutes} onChange={(e) => onAutoLockChange(Number(e.target.value))} className={selectClass}>
+                {AUTO_LOCK_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={submit} className="space-y-2">
+          {mode !== 'enable' && (
+            <input type="password" autoFocus value={current} onChange={(e) => setCurrent(e.target.value)} placeholder="Current passcode" className={inputClass} />
+          )}
+          {mode !== 'disable' && (
+            <>
+              <input type="password" autoFocus={mode === 'enable'} value={next} onChange={(e) => setNext(e.target.value)} placeholder="New passcode" className={inputClass} />
+              <input type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} placeholder="Confirm passcode" className={inputClass} />
+            </>
+          )}
+          {error && <p className="text-[9px] font-bold text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button type="button" onClick={() => reset()} disabled={isBusy} className="flex-1 py-2 bg-slate-900 text-slate-400 text-[9px] font-black uppercase tracking-widest rounded-lg border border-slate-800 disabled:opacity-40">
+              Cancel
+            </button>
+            <button type="submit" disabled={isBusy} className="flex-1 py-2 bg-indigo-600 text-white text-[9px] font-black uppercase tracking-widest rounded-lg disabled:opacity-40 active:scale-95 transition-all">
+              {isBusy ? 'Encrypting...' : mode === 'disable' ? 'Remove Lock' : 'Save'}
+            </button>
+          </div>
+          {mode === 'enable' && (
+            <p className="text-[8px] font-bold text-slate-600 leading-relaxed">There is no recovery: a forgotten passcode means the library cannot be decrypted.</p>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PasscodeSettings;
@@ -1,27 +1,71 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ProcessingStatus, LogEntry } from '../types';
+import { ProcessingStatus, LogEntry, TranscriptionOptions } from '../types';
+import { monitorLevel, QUIET_LEVEL, SILENCE_LEVEL } from '../services/audioLevels';
+
+const WAVE_BARS = 60;
+const WAVE_STEP_MS = 100; // one bar per 100 ms, so the strip shows the last six seconds
+const QUIET_WARNING_MS = 3000;
+const LIMIT_WARNING_SECONDS = 30;
 
 interface RecorderProps {
-  onRecordingComplete: (blob: Blob, duration: number) => void;
+  onRecordingComplete: (blob: Blob, duration: number, options?: TranscriptionOptions) => void;
   status: ProcessingStatus;
   addLog: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  recordingBitrate: number;
+  silenceAutoStopSeconds: number;
+  maxRecordingMinutes: number;
+  onRecordingChange?: (isRecording: boolean) => void;
 }
 
-const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog }) => {
+const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog, recordingBitrate, silenceAutoStopSeconds, maxRecordingMinutes, onRecordingChange }) => {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [seconds, setSeconds] = useState(0);
+  const [identifySpeakers, setIdentifySpeakers] = useState(false);
+  const [isTooQuiet, setIsTooQuiet] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  // Recorded time excludes pauses: finished stretches accumulate in recordedMsRef,
+  // the running one started at resumedAtRef (null while paused).
+  const recordedMsRef = useRef(0);
+  const resumedAtRef = useRef<number | null>(null);
+  const maxSecondsRef = useRef(0);
+  const identifySpeakersRef = useRef(false);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const meterRef = useRef<HTMLDivElement | null>(null);
+  const stopMonitorRef = useRef<(() => void) | null>(null);
+  const waveRef = useRef<number[]>([]);
+  const bucketRef = useRef({ peak: 0, start: 0 });
+  const lastVoiceRef = useRef(0);
+  const lastLoudRef = useRef(0);
+  const tooQuietRef = useRef(false);
+  const silenceAutoStopRef = useRef(0);
+
+  useEffect(() => {
+    onRecordingChange?.(isRecording);
+  }, [isRecording]);
+
+  useEffect(() => () => stopMonitorRef.current?.(), []);
+
+  const getRecordedSeconds = () => {
+    const running = resumedAtRef.current === null ? 0 : Date.now() - resumedAtRef.current;
+    return (recordedMsRef.current + running) / 1000;
+  };
 
   useEffect(() => {
     if (isRecording) {
       timerRef.current = window.setInterval(() => {
-        setSeconds(s => s + 1);
-      }, 1000);
+        const recorded = getRecordedSeconds();
+        setSeconds(Math.floor(recorded));
+        if (maxSecondsRef.current > 0 && recorded >= maxSecondsRef.current) {
+          addLog({ type: 'INFO', source: 'Recorder', message: `Maximum length of ${maxSecondsRef.current / 60} min reached` });
+          stopRecording();
+        }
+      }, 250);
     } else {
       if (timerRef.current) clearInterval(timerRef.current);
       setSeconds(0);
@@ -45,6 +89,74 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog
     }
   };
 
+  const drawWaveform = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const bars = waveRef.current;
+    const barWidth = canvas.width / WAVE_BARS;
+    bars.forEach((level, i) => {
+      const height = Math.max(2, level * canvas.height);
+      ctx.fillStyle = level >= QUIET_LEVEL ? '#818cf8' : '#475569';
+      ctx.fillRect(canvas.width - (bars.length - i) * barWidth + 1, (canvas.height - height) / 2, barWidth - 2, height);
+    });
+  };
+
+  const stopMonitor = () => {
+    stopMonitorRef.current?.();
+    stopMonitorRef.current = null;
+  };
+
+  const handleLevel = (level: number) => {
+    if (resumedAtRef.current === null) return;
+    const now = Date.now();
+    if (meterRef.current) meterRef.current.style.width = `${level * 100}%`;
+
+    const bucket = bucketRef.current;
+    bucket.peak = Math.max(bucket.peak, level);
+    if (now - bucket.start >= WAVE_STEP_MS) {
+      waveRef.current = [...waveRef.current.slice(1 - WAVE_BARS), bucket.peak];
+      bucketRef.current = { peak: 0, start: now };
+      drawWaveform();
+    }
+
+    if (level >= SILENCE_LEVEL) lastVoiceRef.current = now;
+    if (level >= QUIET_LEVEL) lastLoudRef.current = now;
+    const tooQuiet = now - lastLoudRef.current > QUIET_WARNING_MS;
+    if (tooQuiet !== tooQuietRef.current) {
+      tooQuietRef.current = tooQuiet;
+      setIsTooQuiet(tooQuiet);
+    }
+
+    const limit = silenceAutoStopRef.current;
+    if (limit > 0 && now - lastVoiceRef.current > limit * 1000) {
+      addLog({ type: 'INFO', source: 'Recorder', message: `Stopped after ${limit}s of silence` });
+      stopRecording();
+    }
+  };
+
+  const resetLevelTracking = () => {
+    const now = Date.now();
+    bucketRef.current = { peak: 0, start: now };
+    lastVoiceRef.current = now;
+    lastLoudRef.current = now;
+    tooQuietRef.current = false;
+    setIsTooQuiet(false);
+  };
+
+  const startLevelMonitor = (stream: MediaStream) => {
+    waveRef.current = [];
+    resetLevelTracking();
+    silenceAutoStopRef.current = silenceAutoStopSeconds;
+    if (!audioContextRef.current) return;
+    try {
+      stopMonitorRef.current = monitorLevel(audioContextRef.current, stream, handleLevel);
+    } catch (e: any) {
+      addLog({ type: 'WARNING', source: 'Recorder', message: 'Level meter unavailable', details: e.message });
+    }
+  };
+
   const startRecording = async () => {
     try {
       await initAudioEngine();
@@ -63,7 +175,7 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog
         
       const mediaRecorder = new MediaRecorder(stream, { 
         mimeType,
-        audioBitsPerSecond: 32000
+        audioBitsPerSecond: recordingBitrate
       });
       
       mediaRecorderRef.current = mediaRecorder;
@@ -79,7 +191,7 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog
           addLog({ type: 'INFO', source: 'Recorder', message: 'Recording finished', details: { size: audioBlob.size, type: mimeType } });
           
           if (audioBlob.size > 1500) {
-             onRecordingComplete(audioBlob, seconds);
+             onRecordingComplete(audioBlob, recordedMsRef.current / 1000, { diarize: identifySpeakersRef.current });
           } else {
              addLog({ type: 'ERROR', source: 'Recorder', message: 'Captured recording too small', details: { size: audioBlob.size } });
           }
@@ -88,6 +200,12 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog
       };
 
       mediaRecorder.start(250);
+      recordedMsRef.current = 0;
+      resumedAtRef.current = Date.now();
+      maxSecondsRef.current = maxRecordingMinutes * 60;
+      identifySpeakersRef.current = identifySpeakers;
+      startLevelMonitor(stream);
+      setIsPaused(false);
       setIsRecording(true);
       addLog({ type: 'INFO', source: 'Recorder', message: 'Recording started' });
     } catch (err: any) {
@@ -96,12 +214,45 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog
     }
   };
 
+  const pauseRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'recording' || resumedAtRef.current === null) return;
+    try {
+      recorder.pause();
+      recordedMsRef.current += Date.now() - resumedAtRef.current;
+      resumedAtRef.current = null;
+      setIsPaused(true);
+      if (meterRef.current) meterRef.current.style.width = '0%';
+    } catch (e: any) {
+      addLog({ type: 'ERROR', source: 'Recorder', message: 'Recorder pause failed', details: e.message });
+    }
+  };
+
+  const resumeRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'paused') return;
+    try {
+      recorder.resume();
+      resumedAtRef.current = Date.now();
+      resetLevelTracking();
+      setIsPaused(false);
+    } catch (e: any) {
+      addLog({ type: 'ERROR', source: 'Recorder', message: 'Recorder resume failed', details: e.message });
+    }
+  };
+
   const stopRecording = () => {
+    stopMonitor();
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      if (resumedAtRef.current !== null) {
+        recordedMsRef.current += Date.now() - resumedAtRef.current;
+        resumedAtRef.current = null;
+      }
       try {
         mediaRecorderRef.current.requestData();
         mediaRecorderRef.current.stop();
         setIsRecording(false);
+        setIsPaused(false);
       } catch (e: any) {
         addLog({ type: 'ERROR', source: 'Recorder', message: 'Recorder stop failed', details: e.message });
       }
@@ -115,11 +266,13 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog
   };
 
   const isProcessing = status === ProcessingStatus.TRANSCRIBING || status === ProcessingStatus.SUMMARIZING;
+  const remainingSeconds = maxSecondsRef.current - seconds;
+  const isNearLimit = isRecording && maxSecondsRef.current > 0 && remainingSeconds <= LIMIT_WARNING_SECONDS;
 
   return (
     <div className={`w-full flex flex-col items-center justify-center py-10 px-6 rounded-[2.5rem] shadow-2xl border transition-all duration-700 relative overflow-hidden ${isRecording ? 'bg-slate-900 border-indigo-500/50' : 'bg-slate-900/40 border-slate-800'}`}>
       
-      {isRecording && (
+      {isRecording && !isPaused && (
         <div className="absolute inset-0 z-0">
             <div className="absolute inset-0 bg-indigo-500/5 animate-pulse"></div>
             <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[180px] h-[180px] bg-indigo-500/10 blur-[60px] rounded-full animate-pulse"></div>
@@ -128,19 +281,34 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog
 
       <div className="relative z-10 w-full px-4 text-center mb-8">
         <div className="flex items-center justify-center gap-2 mb-1.5">
-            {isRecording && <div className="w-1.5 h-1.5 bg-red-500 rounded-full animate-ping"></div>}
+            {isRecording && !isPaused && <div className="w-1.5 h-1.5 bg-red-500 rounded-full animate-ping"></div>}
             <h2 className="text-xl font-black text-slate-100 uppercase tracking-tight">
-                {isRecording ? "Listening..." : isProcessing ? "AI Thinking..." : "Ready to Record"}
+                {isRecording ? isPaused ? "Paused" : "Listening..." : isProcessing ? "AI Thinking..." : "Ready to Record"}
             </h2>
         </div>
-        <p className="text-slate-500 text-[10px] uppercase font-black tracking-widest leading-none">
-          {isRecording ? "Capturing voice data" : isProcessing ? "Processing neural path" : "Tap to start memo"}
+        <p className={`text-[10px] uppercase font-black tracking-widest leading-none ${isRecording && !isPaused && (isNearLimit || isTooQuiet) ? 'text-amber-400' : 'text-slate-500'}`}>
+          {isRecording
+            ? isPaused ? "Resume to keep recording"
+              : isNearLimit ? `Length limit - stopping in ${Math.max(0, remainingSeconds)}s`
+              : isTooQuiet ? "Too quiet - move closer to the mic" : "Capturing voice data"
+            : isProcessing ? "Processing neural path" : "Tap to start memo"}
         </p>
+        {isRecording && (
+          <div className="mt-4 animate-in fade-in duration-300">
+            <canvas ref={canvasRef} width={WAVE_BARS * 4} height={40} className="w-full h-10" />
+            <div className="mt-2 h-1 bg-slate-950 rounded-full overflow-hidden">
+              <div ref={meterRef} className={`h-full transition-[width] duration-75 ${isTooQuiet ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: 0 }}></div>
+            </div>
+            {silenceAutoStopSeconds > 0 && (
+              <p className="mt-2 text-[8px] font-black text-slate-600 uppercase tracking-widest">Stops after {silenceAutoStopSeconds}s of silence</p>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="relative z-10 flex flex-col items-center">
         <div className="relative">
-          {isRecording && (
+          {isRecording && !isPaused && (
             <div className="absolute inset-0 animate-ping rounded-full bg-red-500/20 scale-125 duration-1000"></div>
           )}
           <button
@@ -171,7 +339,47 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, status, addLog
 
         <div className={`mt-2 text-2xl font-mono font-black transition-all duration-300 ${isRecording ? 'text-white scale-110 tracking-widest' : 'text-slate-800 opacity-20'}`}>
           {formatTime(seconds)}
+          {isRecording && maxSecondsRef.current > 0 && (
+            <span className="text-xs text-slate-600 tracking-normal"> / {formatTime(maxSecondsRef.current)}</span>
+          )}
         </div>
+
+        {isRecording && (
+          <button
+            onClick={isPaused ? resumeRecording : pauseRecording}
+            className={`mt-4 flex items-center gap-1.5 px-3 py-1.5 rounded-full border transition-all active:scale-95 ${
+              isPaused
+                ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-400'
+                : 'bg-slate-950/50 border-slate-800 text-slate-400'
+            }`}
+          >
+            {isPaused ? (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M6.3 2.841A1.5 1.5 0 004 4.11v11.78a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
+              </svg>
+            ) : (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M5.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75A.75.75 0 007.25 3h-1.5zM12.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75a.75.75 0 00-.75-.75h-1.5z" />
+              </svg>
+            )}
+            <span className="text-[9px] font-black uppercase tracking-widest">{isPaused ? 'Resume' : 'Pause'}</span>
+          </button>
+        )}
+
+        <button
+          onClick={() => setIdentifySpeakers(!identifySpeakers)}
+          disabled={isRecording || isProcessing}
+          className={`mt-4 flex items-center gap-1.5 px-3 py-1.5 rounded-full border transition-all active:scale-95 disabled:opacity-40 ${
+            identifySpeakers
+              ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-400'
+              : 'bg-slate-950/50 border-slate-800 text-slate-500'
+          }`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          <span className="text-[9px] font-black uppercase tracking-widest">Identify Speakers</span>
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,113 @@
+import React from 'react';
+import { AppSettings, LogVerbosity, SummaryLength, SummaryStyle, Tab } from '../types';
+import { BITRATE_OPTIONS, MAX_RECORDING_OPTIONS, MODEL_OPTIONS, SILENCE_STOP_OPTIONS } from '../services/settingsService';
+import { LANGUAGES } from '../constants';
+
+const SUMMARY_LENGTH_OPTIONS: { label: string; value: SummaryLength }[] = [
+  { label: 'Brief', value: 'brief' },
+  { label: 'Standard', value: 'standard' },
+  { label: 'Detailed', value: 'detailed' },
+];
+
+const SUMMARY_STYLE_OPTIONS: { label: string; value: SummaryStyle }[] = [
+  { label: 'Neutral', value: 'neutral' },
+  { label: 'Professional', value: 'professional' },
+  { label: 'Casual', value: 'casual' },
+];
+
+const TAB_OPTIONS: { label: string; value: Tab }[] = [
+  { label: 'Translate', value: 'translate' },
+  { label: 'Memo', value: 'record' },
+  { label: 'Library', value: 'library' },
+  { label: 'Config', value: 'settings' },
+];
+
+const LOG_OPTIONS: { label: string; value: LogVerbosity }[] = [
+  { label: 'Everything', value: 'all' },
+  { label: 'Warnings', value: 'warnings' },
+  { label: 'Errors only', value: 'errors' },
+];
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (patch: Partial<AppSettings>) => void;
+}
+
+const selectClass = "bg-slate-900 border border-slate-800 text-indigo-400 text-[9px] font-black uppercase tracking-widest rounded-lg px-2 py-1.5 focus:outline-none max-w-[55%]";
+
+const SettingRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between items-center gap-3 py-1.5">
+    <span className="text-[10px] font-semibold text-slate-400">{label}</span>
+    {children}
+  </div>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-slate-950/50 rounded-xl border border-slate-800/50">
+        <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest">General</span>
+        <SettingRow label="Start Tab">
+          <select value={settings.defaultTab} onChange={(e) => onChange({ defaultTab: e.target.value as Tab })} className={selectClass}>
+            {TAB_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </SettingRow>
+        <SettingRow label="Translate To">
+          <select value={settings.defaultTargetLanguage} onChange={(e) => onChange({ defaultTargetLanguage: e.target.value })} className={selectClass}>
+            {LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+          </select>
+        </SettingRow>
+        <SettingRow label="Recording Quality">
+          <select value={settings.recordingBitrate} onChange={(e) => onChange({ recordingBitrate: Number(e.target.value) })} className={selectClass}>
+            {BITRATE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </SettingRow>
+        <SettingRow label="Max Memo Length">
+          <select value={settings.maxRecordingMinutes} onChange={(e) => onChange({ maxRecordingMinutes: Number(e.target.value) })} className={selectClass}>
+            {MAX_RECORDING_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </SettingRow>
+        <SettingRow label="Stop On Silence">
+          <select value={settings.silenceAutoStopSeconds} onChange={(e) => onChange({ silenceAutoStopSeconds: Number(e.target.value) })} className={selectClass}>
+            {SILENCE_STOP_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </SettingRow>
+        <SettingRow label="Keep Translation Audio">
+          <button
+            onClick={() => onChange({ keepTranslationAudio: !settings.keepTranslationAudio })}
+            className={`w-8 h-4 rounded-full relative transition-colors ${settings.keepTranslationAudio ? 'bg-indigo-500' : 'bg-slate-800'}`}
+            aria-label="Keep translation audio"
+          >
+            <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${settings.keepTranslationAudio ? 'left-4' : 'left-0.5'}`}></span>
+          </button>
+        </SettingRow>
+        <SettingRow label="Log Level">
+          <select value={settings.logVerbosity} onChange={(e) => onChange({ logVerbosity: e.target.value as LogVerbosity })} className={selectClass}>
+            {LOG_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </SettingRow>
+      </div>
+
+      <div className="p-3 bg-slate-950/50 rounded-xl border border-slate-800/50">
+        <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest">AI</span>
+        <SettingRow label="Model">
+          <select value={settings.model} onChange={(e) => onChange({ model: e.target.value })} className={selectClass}>
+            {MODEL_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </SettingRow>
+        <SettingRow label="Summary Length">
+          <select value={settings.summaryLength} onChange={(e) => onChange({ summaryLength: e.target.value as SummaryLength })} className={selectClass}>
+            {SUMMARY_LENGTH_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </SettingRow>
+        <SettingRow label="Summary Style">
+          <select value={settings.summaryStyle} onChange={(e) => onChange({ summaryStyle: e.target.value as SummaryStyle })} className={selectClass}>
+            {SUMMARY_STYLE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </SettingRow>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { TTS_VOICES, TTS_RATES } from '../services/speechService';
+
+interface SpeechControlsProps {
+  voice: string;
+  rate: number;
+  autoSpeak: boolean;
+  isSpeaking: boolean;
+  canReplay: boolean;
+  onVoiceChange: (voice: string) => void;
+  onRateChange: (rate: number) => void;
+  onAutoSpeakChange: (autoSpeak: boolean) => void;
+  onReplay: () => void;
+}
+
+const SpeechControls: React.FC<SpeechControlsProps> = ({
+  voice, rate, autoSpeak, isSpeaking, canReplay, onVoiceChange, onRateChange, onAutoSpeakChange, onReplay
+}) => {
+  const [showOptions, setShowOptions] = useState(false);
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={onReplay}
+        disabled={!canReplay}
+        className={`p-1 rounded-md transition-colors disabled:opacity-30 ${isSpeaking ? 'text-indigo-300 animate-pulse' : 'text-indigo-500 hover:text-indigo-300'}`}
+        aria-label={isSpeaking ? "Stop speaking" : "Speak translation"}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+        </svg>
+      </button>
+      <button
+        onClick={() => setShowOptions(!showOptions)}
+        className={`px-1.5 py-0.5 rounded-md text-[7px] font-black uppercase tracking-widest border transition-colors ${autoSpeak ? 'border-indigo-500/40 text-indigo-400 bg-indigo-500/10' : 'border-slate-800 text-slate-600'}`}
+      >
+        {autoSpeak ? 'Auto' : 'Voice'}
+      </button>
+
+      {showOptions && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-44 p-2.5 bg-slate-900 border border-slate-800 rounded-xl shadow-2xl space-y-2 animate-in fade-in zoom-in-95 duration-150">
+          <label className="flex items-center justify-between">
+            <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Auto-play</span>
+            <input type="checkbox" checked={autoSpeak} onChange={(e) => onAutoSpeakChange(e.target.checked)} className="accent-indigo-500" />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Voice</span>
+            <select
+              value={voice}
+              onChange={(e) => onVoiceChange(e.target.value)}
+              className="bg-slate-950 border border-slate-800 text-indigo-400 text-[9px] font-black uppercase rounded-md px-1.5 py-0.5 focus:outline-none"
+            >
+              {TTS_VOICES.map(v => <option key={v.value} value={v.value}>{v.label}</option>)}
+            </select>
+          </label>
+          <div className="flex items-center justify-between gap-1">
+            <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">Rate</span>
+            <div className="flex gap-0.5">
+              {TTS_RATES.map(r => (
+                <button
+                  key={r}
+                  onClick={() => onRateChange(r)}
+                  className={`px-1 py-0.5 rounded text-[8px] font-black ${rate === r ? 'bg-indigo-500/20 text-indigo-400' : 'text-slate-600'}`}
+                >
+                  {r}x
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeechControls;
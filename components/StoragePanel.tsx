@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { LogEntry, Memo } from '../types';
+import { StorageUsage } from '../services/storageService';
+import { COMPACT_MIN_AGE_DAYS, CompactionProgress, QuotaEstimate, estimateQuota, findCompactable, findExpiredAudio, formatBytes, isStoragePersisted, requestPersistentStorage } from '../services/storageMaintenance';
+import { RETENTION_OPTIONS } from '../services/settingsService';
+import { getMemoTitle } from '../services/exportService';
+
+interface StoragePanelProps {
+  usage: StorageUsage | null;
+  memos: Memo[];
+  retentionDays: number;
+  compaction: CompactionProgress | null;
+  onRetentionChange: (days: number) => void;
+  onCompact: () => void;
+  onCancelCompact: () => void;
+  onOpenMemo: (memoId: string) => void;
+  addLog: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+}
+
+const LARGEST_COUNT = 5;
+
+const selectClass = "bg-slate-900 border border-slate-800 text-indigo-400 text-[9px] font-black uppercase tracking-widest rounded-lg px-2 py-1.5 focus:outline-none";
+const smallButtonClass = "px-2 py-1 rounded-full bg-slate-900 border border-slate-800 text-[8px] font-black text-slate-400 uppercase tracking-wider hover:text-indigo-400 active:scale-95 transition-all disabled:opacity-40";
+
+const sumAudio = (memos: Memo[]) => memos.reduce((sum, m) => sum + m.audioSize, 0);
+
+const StoragePanel: React.FC<StoragePanelProps> = ({ usage, memos, retentionDays, compaction, onRetentionChange, onCompact, onCancelCompact, onOpenMemo, addLog }) => {
+  const [quota, setQuota] = useState<QuotaEstimate | null>(null);
+  const [persisted, setPersisted] = useState<boolean | null>(null);
+  const [pendingDays, setPendingDays] = useState<number | null>(null);
+
+  useEffect(() => {
+    estimateQuota().then(setQuota).catch(() => setQuota(null));
+  }, [usage]);
+
+  useEffect(() => {
+    isStoragePersisted().then(setPersisted).catch(() => setPersisted(null));
+  }, []);
+
+  const requestPersistence = async () => {
+    try {
+      const granted = await requestPersistentStorage();
+      setPersisted(granted);
+      addLog(granted
+        ? { type: 'INFO', source: 'Storage', message: 'Persistent storage granted' }
+        : { type: 'WARNING', source: 'Storage', message: 'Browser declined persistent storage' });
+    } catch (e: any) {
+      addLog({ type: 'WARNING', source: 'Storage', message: 'Persistent storage request failed', details: e?.message });
+    }
+  };
+
+  // Tightening the policy removes audio right away, so it is confirmed first.
+  const selectRetention = (days: number) => {
+    const tighter = days > 0 && (retentionDays === 0 || days < retentionDays);
+    if (tighter && findExpiredAudio(memos, days).length > 0) setPendingDays(days);
+    else onRetentionChange(days);
+  };
+
+  const pendingExpired = pendingDays === null ? [] : findExpiredAudio(memos, pendingDays);
+  const compactable = findCompactable(memos);
+  const compactableSeconds = compactable.reduce((sum, m) => sum + m.duration, 0);
+  const largest = usage
+    ? memos.filter(m => usage.memos[m.id]).sort((a, b) => usage.memos[b.id] - usage.memos[a.id]).slice(0, LARGEST_COUNT)
+    : [];
+  const quotaPercent = quota && quota.quota > 0 ? Math.min(100, (quota.usage / quota.quota) * 100) : 0;
+
+  return (
+    <div className="mt-3 p-3 bg-slate-950/50 rounded-xl border border-slate-800/50 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-semibold text-slate-400">Storage</span>
+        <span className="text-[9px] font-bold text-indigo-400 bg-indigo-500/10 px-2 py-1 rounded-lg border border-indigo-500/20">
+          {usage === null ? '--' : formatBytes(usage.total)}
+        </span>
+      </div>
+
+      {quota && (
+        <div>
+          <div className="h-1 bg-slate-900 rounded-full overflow-hidden">
+            <div className={`h-full ${quotaPercent > 80 ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${Math.max(quotaPercent, 1)}%` }}></div>
+          </div>
+          <div className="flex justify-between mt-1 text-[8px] font-bold text-slate-500">
+            <span>{formatBytes(quota.usage)} used by this site</span>
+            <span>{formatBytes(Math.max(0, quota.quota - quota.usage))} free</span>
+          </div>
+        </div>
+      )}
+
+      {usage && (
+        <div className="flex gap-3 text-[8px] font-black text-slate-600 uppercase tracking-wider">
+          <span>Memos {formatBytes(usage.total - usage.translations - usage.digests)}</span>
+          <span>Translations {formatBytes(usage.translations)}</span>
+          <span>Digests {formatBytes(usage.digests)}</span>
+        </div>
+      )}
+
+      {persisted !== null && (
+        <div className="flex justify-between items-center">
+          <span className="text-[9px] font-bold text-slate-500">
+            {persisted ? 'Protected from automatic cleanup' : 'Browser may clear data when space runs low'}
+          </span>
+          {!persisted && <button onClick={requestPersistence} className={smallButtonClass}>Keep Data</button>}
+        </div>
+      )}
+
+      {largest.length > 0 && (
+        <div>
+          <span className="text-[8px] font-black text-slate-600 uppercase tracking-[0.2em]">Largest Memos</span>
+          <div className="mt-1 space-y-0.5">
+            {largest.map(memo => (
+              <button key={memo.id} onClick={() => onOpenMemo(memo.id)} className="w-full flex justify-between items-center gap-2 text-left group">
+                <span className="text-[10px] font-medium text-slate-400 truncate group-hover:text-indigo-400">{getMemoTitle(memo)}</span>
+                <span className="text-[9px] font-bold text-slate-500 flex-shrink-0">
+                  {formatBytes(usage!.memos[memo.id])}
+                  {memo.compactedFrom && <span className="text-slate-700"> · was {formatBytes(memo.compactedFrom)}</span>}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <span className="text-[9px] font-bold text-slate-500">Remove Audio, Keep Text</span>
+        <select value={pendingDays ?? retentionDays} onChange={(e) => selectRetention(Number(e.target.value))} className={selectClass}>
+          {RETENTION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </div>
+      {pendingDays !== null && (
+        <div className="flex items-center gap-2 animate-in fade-in duration-150">
+          <span className="flex-1 text-[10px] font-bold text-red-400">
+            Remove audio from {pendingExpired.length} memos now ({formatBytes(sumAudio(pendingExpired))})? Pinned memos are kept.
+          </span>
+          <button
+            onClick={() => { onRetentionChange(pendingDays); setPendingDays(null); }}
+            className="px-3 py-1.5 bg-red-600 text-white text-[9px] font-black uppercase tracking-widest rounded-lg active:scale-95 transition-all"
+          >
+            Remove
+          </button>
+          <button onClick={() => setPendingDays(null)} className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Cancel</button>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-[9px] font-bold text-slate-500">
+          {compaction?.running
+            ? `Compacting ${Math.min(compaction.done + 1, compaction.total)} of ${compaction.total}...`
+            : compactable.length > 0
+              ? `${compactable.length} WAV/MP4 recordings over ${COMPACT_MIN_AGE_DAYS} days old (${formatBytes(sumAudio(compactable))}) can be compacted, about ${Math.ceil(compactableSeconds / 60)} min`
+              : 'All older recordings are compact'}
+        </span>
+        {compaction?.running ? (
+          <button onClick={onCancelCompact} className={`${smallButtonClass} hover:text-red-400`}>Cancel</button>
+        ) : (
+          <button onClick={onCompact} disabled={compactable.length === 0} className={smallButtonClass}>Compact</button>
+        )}
+      </div>
+      {compaction && compaction.before > 0 && (
+        <div className="text-[9px] font-bold text-emerald-400">
+          {formatBytes(compaction.before)} → {formatBytes(compaction.after)}, saved {formatBytes(compaction.before - compaction.after)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoragePanel;
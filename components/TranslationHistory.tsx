@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { TranslationHistoryEntry } from '../types';
+import { LANGUAGES } from '../constants';
+
+interface TranslationHistoryProps {
+  entries: TranslationHistoryEntry[];
+  onClose: () => void;
+  onOpen: (entry: TranslationHistoryEntry) => void;
+  onRetranslate: (entry: TranslationHistoryEntry, targetLanguage: string) => void;
+  onPromote: (entry: TranslationHistoryEntry) => void;
+  onPlayAudio: (entry: TranslationHistoryEntry) => void;
+  onDelete: (id: string) => void;
+}
+
+const actionClass = "px-2 py-1 rounded-full bg-slate-950/50 border border-slate-800 text-[8px] font-black text-slate-400 uppercase tracking-wider hover:border-indigo-500/30 hover:text-indigo-400 active:scale-95 transition-all";
+
+const formatDate = (timestamp: number) => new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+}).format(new Date(timestamp));
+
+const TranslationHistory: React.FC<TranslationHistoryProps> = ({ entries, onClose, onOpen, onRetranslate, onPromote, onPlayAudio, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const needle = query.trim().toLowerCase();
+  const visible = needle
+    ? entries.filter(e => `${e.original}\n${e.translated}\n${e.sourceLanguage ?? ''}\n${e.targetLanguage}`.toLowerCase().includes(needle))
+    : entries;
+
+  return (
+    <div className="fixed inset-0 z-[105] bg-slate-950/95 backdrop-blur-xl flex flex-col p-6 pt-[max(1.5rem,env(safe-area-inset-top))] animate-in fade-in slide-in-from-bottom-4 duration-200 touch-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-black text-white">History</h2>
+        <button onClick={onClose} className="p-2 text-slate-500 hover:text-white" aria-label="Close history">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search translations"
+        className="w-full bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 mb-3 text-xs font-medium text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/40 select-text"
+      />
+
+      <div className="flex-1 overflow-y-auto no-scrollbar space-y-2">
+        {visible.length === 0 ? (
+          <p className="text-slate-600 text-xs text-center py-20">{entries.length === 0 ? 'No translations yet.' : 'No translations match your search.'}</p>
+        ) : visible.map(entry => (
+          <div key={entry.id} className="p-3 rounded-2xl bg-slate-900/80 border border-slate-800/60">
+            <button onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)} className="w-full text-left">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-[8px] font-black text-indigo-400 uppercase tracking-wider">
+                  {entry.sourceLanguage || 'Auto'} → {entry.targetLanguage}
+                </span>
+                <span className="text-[8px] font-black text-slate-600 uppercase tracking-wider">{formatDate(entry.timestamp)}</span>
+                {entry.audioMimeType && <span className="text-[7px] font-black text-slate-500 bg-slate-950/50 px-1 py-0.5 rounded uppercase">Audio</span>}
+              </div>
+              <p className="text-[11px] text-slate-400 italic leading-snug line-clamp-2">{entry.original}</p>
+              <p className="text-xs text-slate-100 font-bold leading-snug mt-0.5 line-clamp-2">{entry.translated}</p>
+            </button>
+            {expandedId === entry.id && (
+              <div className="flex flex-wrap items-center gap-1.5 mt-2 animate-in fade-in duration-200">
+                <button onClick={() => onOpen(entry)} className={actionClass}>Open</button>
+                {entry.audioMimeType && <button onClick={() => onPlayAudio(entry)} className={actionClass}>Play</button>}
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && onRetranslate(entry, e.target.value)}
+                  className="bg-slate-950/50 border border-slate-800 text-slate-400 text-[8px] font-black uppercase tracking-wider rounded-full px-2 py-1 focus:outline-none"
+                >
+                  <option value="">Translate to...</option>
+                  {LANGUAGES.filter(l => l.value !== entry.targetLanguage).map(l => (
+                    <option key={l.value} value={l.value}>{l.label}</option>
+                  ))}
+                </select>
+                <button onClick={() => onPromote(entry)} className={actionClass}>Save as Memo</button>
+                <button onClick={() => onDelete(entry.id)} className={`${actionClass} hover:text-red-400 hover:border-red-500/30`}>Delete</button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TranslationHistory;
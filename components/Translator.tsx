@@ -1,32 +1,50 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ProcessingStatus, LogEntry } from '../types';
-import { translateAudio, translateText } from '../services/geminiService';
-
-const LANGUAGES = [
-  { label: 'English', value: 'English' },
-  { label: 'Chinese', value: 'Chinese' },
-  { label: 'Thai', value: 'Thai' },
-  { label: 'Vietnamese', value: 'Vietnamese' },
-  { label: 'Bahasa Indonesia', value: 'Bahasa Indonesia' },
-  { label: 'Japanese', value: 'Japanese' },
-  { label: 'Korean', value: 'Korean' },
-  { label: 'Tagalog', value: 'Tagalog' },
-];
+import { ProcessingStatus, LogEntry, ConversationTurn, ConversationTurnResult, TranslationQueueJob, TranslationResult, TranslationHistoryEntry } from '../types';
+import { translateAudio, translateText, translateConversationTurn } from '../services/geminiService';
+import { getSpeech, stopSpeech, playSpeech, TTS_VOICES } from '../services/speechService';
+import { listTranslations, saveTranslation, deleteTranslation, getTranslationAudio, getTranslationSpeech, saveTranslationSpeech } from '../services/storageService';
+import ConversationView from './ConversationView';
+import SpeechControls from './SpeechControls';
+import TranslationHistory from './TranslationHistory';
+import { LANGUAGES } from '../constants';
+
+type TranslatorMode = 'single' | 'conversation';
 
 interface TranslatorProps {
   status: ProcessingStatus;
   setStatus: (status: ProcessingStatus) => void;
   addLog: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  queuedResults: TranslationQueueJob[];
+  onQueueTranslation: (audio: Blob, targetLanguage: string, conversationPartner?: string) => Promise<void>;
+  onQueuedResultsConsumed: (ids: string[]) => void;
+  defaultTargetLanguage: string;
+  recordingBitrate: number;
+  keepTranslationAudio: boolean;
+  onPromoteToMemo: (entry: TranslationHistoryEntry) => Promise<void>;
 }
 
-const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) => {
+const Translator: React.FC<TranslatorProps> = ({
+  status, setStatus, addLog, queuedResults, onQueueTranslation, onQueuedResultsConsumed,
+  defaultTargetLanguage, recordingBitrate, keepTranslationAudio, onPromoteToMemo
+}) => {
   const [isPressing, setIsPressing] = useState(false);
-  const [targetLang, setTargetLang] = useState('English');
-  const [translationData, setTranslationData] = useState<{original: string, translated: string} | null>(null);
+  const [targetLang, setTargetLang] = useState(defaultTargetLanguage);
+  const [translationData, setTranslationData] = useState<TranslationResult | null>(null);
   const [timer, setTimer] = useState(0);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState(false);
+  const [mode, setMode] = useState<TranslatorMode>('single');
+  const [languageA, setLanguageA] = useState('English');
+  const [languageB, setLanguageB] = useState('Thai');
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [voice, setVoice] = useState(TTS_VOICES[0].value);
+  const [speechRate, setSpeechRate] = useState(1);
+  const [autoSpeak, setAutoSpeak] = useState(true);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [history, setHistory] = useState<TranslationHistoryEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
@@ -37,6 +55,10 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
   
   const requestIdRef = useRef<number>(0);
   const lastTranslatedToRef = useRef<string>('');
+  const speechIdRef = useRef<number>(0);
+  // Speech lookups run right after a new entry is recorded, before the next render.
+  const historyRef = useRef<TranslationHistoryEntry[]>(history);
+  historyRef.current = history;
   const isBusy = status === ProcessingStatus.TRANSLATING;
 
   const cancelTranslation = () => {
@@ -47,6 +69,115 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
     addLog({ type: 'INFO', source: 'Translator', message: 'User cancelled translation' });
   };
 
+  /**
+   * Speech for a translation that is in the history is kept with the entry, so
+   * replaying it later, even after a reload, does not call the API again.
+   */
+  const loadSpeech = async (text: string, language: string): Promise<Blob> => {
+    const entry = historyRef.current.find(e => e.translated === text && e.targetLanguage === language);
+    const stored = entry?.speechVoice === voice ? await getTranslationSpeech(entry.id) : undefined;
+    if (stored) return stored;
+    const blob = await getSpeech(text, language, voice);
+    if (entry) {
+      const updated = { ...entry, speechVoice: voice };
+      setHistory(prev => prev.map(e => e.id === entry.id ? updated : e));
+      saveTranslationSpeech(updated, blob).catch((err: any) => {
+        addLog({ type: 'WARNING', source: 'Speech', message: 'Failed to save speech with translation', details: err.message });
+      });
+    }
+    return blob;
+  };
+
+  const speakText = async (text: string, language: string) => {
+    const speechId = ++speechIdRef.current;
+    setIsSpeaking(true);
+    try {
+      const blob = await loadSpeech(text, language);
+      if (speechId === speechIdRef.current) await playSpeech(blob, speechRate);
+    } catch (err: any) {
+      addLog({ type: 'WARNING', source: 'Speech', message: 'Speech playback failed', details: err.message });
+    } finally {
+      if (speechId === speechIdRef.current) setIsSpeaking(false);
+    }
+  };
+
+  const toggleSpeech = (text: string, language: string) => {
+    if (isSpeaking) {
+      speechIdRef.current += 1;
+      stopSpeech();
+      setIsSpeaking(false);
+    } else {
+      speakText(text, language);
+    }
+  };
+
+  useEffect(() => {
+    listTranslations()
+      .then(setHistory)
+      .catch((err: any) => addLog({ type: 'WARNING', source: 'Translator', message: 'Failed to load translation history', details: err?.message }));
+  }, []);
+
+  const recordHistory = async (result: TranslationResult, targetLanguage: string, audio?: Blob, duration?: number) => {
+    const keptAudio = keepTranslationAudio ? audio : undefined;
+    const entry: TranslationHistoryEntry = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      original: result.original,
+      translated: result.translated,
+      sourceLanguage: result.sourceLanguage,
+      targetLanguage,
+      duration,
+      audioMimeType: keptAudio?.type.split(';')[0],
+    };
+    setHistory(prev => [entry, ...prev]);
+    historyRef.current = [entry, ...historyRef.current];
+    try {
+      await saveTranslation(entry, keptAudio);
+    } catch (err: any) {
+      addLog({ type: 'WARNING', source: 'Translator', message: 'Failed to save translation history', details: err.message });
+    }
+  };
+
+  const openHistoryEntry = (entry: TranslationHistoryEntry) => {
+    setMode('single');
+    setErrorMessage(null);
+    setTranslationData({ original: entry.original, translated: entry.translated, sourceLanguage: entry.sourceLanguage });
+    lastTranslatedToRef.current = entry.targetLanguage;
+    setTargetLang(entry.targetLanguage);
+    setShowHistory(false);
+  };
+
+  // Opening the entry and then switching language lets the re-translation effect do the work.
+  const retranslateHistoryEntry = (entry: TranslationHistoryEntry, language: string) => {
+    openHistoryEntry(entry);
+    setTargetLang(language);
+  };
+
+  const removeHistoryEntry = (id: string) => {
+    setHistory(prev => prev.filter(e => e.id !== id));
+    deleteTranslation(id).catch((err: any) => {
+      addLog({ type: 'WARNING', source: 'Translator', message: 'Failed to delete translation', details: err.message });
+    });
+  };
+
+  const playHistoryAudio = async (entry: TranslationHistoryEntry) => {
+    try {
+      const blob = await getTranslationAudio(entry.id);
+      if (blob) await playSpeech(blob, 1);
+    } catch (err: any) {
+      addLog({ type: 'WARNING', source: 'Translator', message: 'Recording playback failed', details: err.message });
+    }
+  };
+
+  const promoteHistoryEntry = async (entry: TranslationHistoryEntry) => {
+    try {
+      await onPromoteToMemo(entry);
+      setShowHistory(false);
+    } catch (err: any) {
+      addLog({ type: 'ERROR', source: 'Translator', message: 'Failed to save translation as memo', details: err.message });
+    }
+  };
+
   const initAudioContext = async () => {
     try {
       const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
@@ -63,6 +194,7 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
 
   useEffect(() => {
     const shouldReTranslate = 
+      mode === 'single' &&
       translationData?.original && 
       !isBusy && 
       !isPressing && 
@@ -79,8 +211,10 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
           const translated = await translateText(currentTextToTranslate, currentTarget);
           if (currentRequestId === requestIdRef.current) {
             setTranslationData(prev => prev ? { ...prev, translated } : null);
+            recordHistory({ ...translationData!, translated }, currentTarget);
             lastTranslatedToRef.current = currentTarget;
             setStatus(ProcessingStatus.IDLE);
+            if (autoSpeak) speakText(translated, currentTarget);
           }
         } catch (err: any) {
           if (currentRequestId === requestIdRef.current) {
@@ -93,23 +227,40 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
       };
       performReTranslation();
     }
-  }, [targetLang, isBusy, isPressing]);
+  }, [targetLang, isBusy, isPressing, mode]);
+
+  useEffect(() => {
+    if (queuedResults.length === 0) return;
+    queuedResults.forEach(job => {
+      if (!job.result) return;
+      if (job.conversationPartner) {
+        const result = job.result as ConversationTurnResult;
+        setTurns(prev => [...prev, {
+          ...result,
+          id: job.id,
+          timestamp: job.createdAt,
+          side: result.sourceLanguage === job.conversationPartner ? 'B' : 'A',
+        }]);
+        recordHistory(result, result.targetLanguage, job.audio);
+      } else {
+        setTranslationData(job.result);
+        lastTranslatedToRef.current = job.targetLanguage;
+        recordHistory(job.result, job.targetLanguage, job.audio);
+      }
+    });
+    setErrorMessage(null);
+    addLog({ type: 'INFO', source: 'Translator', message: `Delivered ${queuedResults.length} queued translations` });
+    onQueuedResultsConsumed(queuedResults.map(j => j.id));
+  }, [queuedResults]);
 
   const startRecording = async () => {
     if (isBusy) return;
+    stopSpeech();
     
     setErrorMessage(null);
     setIsPressing(true);
     await initAudioContext();
 
-    if (!navigator.onLine) {
-        setErrorMessage("Offline");
-        setStatus(ProcessingStatus.ERROR);
-        addLog({ type: 'ERROR', source: 'Translator', message: 'No internet connection' });
-        resetUIState();
-        return;
-    }
-
     pressStartTimeRef.current = Date.now();
     chunksRef.current = [];
     
@@ -133,7 +284,7 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
       
       const mediaRecorder = new MediaRecorder(stream, { 
         mimeType, 
-        audioBitsPerSecond: 32000 
+        audioBitsPerSecond: recordingBitrate
       });
       mediaRecorderRef.current = mediaRecorder;
       
@@ -158,7 +309,7 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
           addLog({ type: 'INFO', source: 'Translator', message: 'Voice captured', details: { size: audioBlob.size, type: finalMime, duration: pressDuration } });
 
           if (audioBlob.size > 1500) { 
-            await handleTranslation(audioBlob);
+            await handleTranslation(audioBlob, pressDuration / 1000);
           } else {
             setErrorMessage("Empty Audio");
             setStatus(ProcessingStatus.ERROR);
@@ -209,11 +360,57 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
     }
   };
 
-  const handleTranslation = async (blob: Blob) => {
+  // Recordings that cannot be translated right now go to the app's offline queue.
+  const queueRecording = async (blob: Blob, reason: string) => {
+    try {
+      if (mode === 'conversation') {
+        await onQueueTranslation(blob, languageA, languageB);
+      } else {
+        await onQueueTranslation(blob, targetLang);
+      }
+      setErrorMessage(`${reason} · Queued`);
+    } catch (err: any) {
+      setErrorMessage(reason);
+      addLog({ type: 'ERROR', source: 'Translator', message: 'Failed to queue recording', details: err.message });
+    }
+  };
+
+  const runConversationTurn = async (blob: Blob, base64: string, currentRequestId: number, duration?: number) => {
+    const mimeType = blob.type;
+    try {
+      const result = await translateConversationTurn(base64, mimeType, languageA, languageB);
+      if (currentRequestId === requestIdRef.current) {
+        const turn: ConversationTurn = {
+          ...result,
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          side: result.sourceLanguage === languageB ? 'B' : 'A',
+        };
+        setTurns(prev => [...prev, turn]);
+        recordHistory(result, result.targetLanguage, blob, duration);
+        setStatus(ProcessingStatus.IDLE);
+        if (autoSpeak) speakText(turn.translated, turn.targetLanguage);
+      }
+    } catch (apiErr: any) {
+      if (currentRequestId === requestIdRef.current) {
+        setStatus(ProcessingStatus.ERROR);
+        addLog({ type: 'ERROR', source: 'Gemini API', message: 'Conversation turn failed', details: apiErr.message });
+        await queueRecording(blob, "API Rejected");
+        setTimeout(() => setStatus(ProcessingStatus.IDLE), 3000);
+      }
+    }
+  };
+
+  const handleTranslation = async (blob: Blob, duration?: number) => {
+    if (!navigator.onLine) {
+      addLog({ type: 'WARNING', source: 'Translator', message: 'No internet connection' });
+      await queueRecording(blob, "Offline");
+      return;
+    }
     const currentRequestId = ++requestIdRef.current;
     setStatus(ProcessingStatus.TRANSLATING);
     setUploadProgress(true);
-    setTranslationData(null);
+    if (mode === 'single') setTranslationData(null);
     setErrorMessage(null);
     const currentTarget = targetLang;
     try {
@@ -229,18 +426,24 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
         }
         const base64 = result.split(',')[1];
         setUploadProgress(false);
+        if (mode === 'conversation') {
+          await runConversationTurn(blob, base64, currentRequestId, duration);
+          return;
+        }
         try {
           const data = await translateAudio(base64, blob.type, currentTarget);
           if (currentRequestId === requestIdRef.current) {
             setTranslationData(data);
             lastTranslatedToRef.current = currentTarget;
+            recordHistory(data, currentTarget, blob, duration);
             setStatus(ProcessingStatus.IDLE);
+            if (autoSpeak) speakText(data.translated, currentTarget);
           }
         } catch (apiErr: any) {
           if (currentRequestId === requestIdRef.current) {
             setStatus(ProcessingStatus.ERROR);
-            setErrorMessage("API Rejected");
             addLog({ type: 'ERROR', source: 'Gemini API', message: 'Audio translation failed', details: apiErr.message });
+            await queueRecording(blob, "API Rejected");
             setTimeout(() => setStatus(ProcessingStatus.IDLE), 3000);
           }
         }
@@ -258,53 +461,165 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
 
   return (
     <div className="w-full h-full flex flex-col min-h-0 overflow-hidden select-none touch-none">
-      <div className="flex-none flex items-center justify-between px-2 pt-1 pb-1">
-        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Target Language</span>
-        <select 
-          value={targetLang}
-          onChange={(e) => setTargetLang(e.target.value)}
-          className="bg-slate-900 border border-slate-800 text-indigo-400 text-[10px] font-black uppercase tracking-widest rounded-lg px-2 py-1 focus:outline-none transition-colors"
-        >
-          {LANGUAGES.map(l => (
-            <option key={l.value} value={l.value}>{l.label}</option>
+      {showHistory && (
+        <TranslationHistory
+          entries={history}
+          onClose={() => setShowHistory(false)}
+          onOpen={openHistoryEntry}
+          onRetranslate={retranslateHistoryEntry}
+          onPromote={promoteHistoryEntry}
+          onPlayAudio={playHistoryAudio}
+          onDelete={removeHistoryEntry}
+        />
+      )}
+      <div className="flex-none flex items-center justify-between px-2 pt-1 pb-1 gap-2">
+        <div className="flex bg-slate-900 border border-slate-800 rounded-lg p-0.5">
+          {(['single', 'conversation'] as TranslatorMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              disabled={isBusy || isPressing}
+              className={`px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-widest transition-colors ${mode === m ? 'bg-indigo-500/20 text-indigo-400' : 'text-slate-600'}`}
+            >
+              {m === 'single' ? 'Single' : 'Conversation'}
+            </button>
           ))}
-        </select>
+        </div>
+        <button
+          onClick={() => setShowHistory(true)}
+          disabled={isPressing}
+          className="p-1 text-slate-500 hover:text-indigo-400 transition-colors mr-auto"
+          aria-label="Translation history"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+        {mode === 'single' ? (
+          <select 
+            value={targetLang}
+            onChange={(e) => setTargetLang(e.target.value)}
+            className="bg-slate-900 border border-slate-800 text-indigo-400 text-[10px] font-black uppercase tracking-widest rounded-lg px-2 py-1 focus:outline-none transition-colors"
+          >
+            {LANGUAGES.map(l => (
+              <option key={l.value} value={l.value}>{l.label}</option>
+            ))}
+          </select>
+        ) : (
+          <div className="flex items-center gap-1">
+            <select 
+              value={languageA}
+              onChange={(e) => setLanguageA(e.target.value)}
+              disabled={isBusy}
+              className="bg-slate-900 border border-slate-800 text-indigo-400 text-[9px] font-black uppercase tracking-widest rounded-lg px-1.5 py-1 focus:outline-none max-w-[90px]"
+            >
+              {LANGUAGES.filter(l => l.value !== languageB).map(l => (
+                <option key={l.value} value={l.value}>{l.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => { setLanguageA(languageB); setLanguageB(languageA); }}
+              disabled={isBusy}
+              className="p-1 text-slate-500 hover:text-slate-300"
+              aria-label="Swap languages"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+              </svg>
+            </button>
+            <select 
+              value={languageB}
+              onChange={(e) => setLanguageB(e.target.value)}
+              disabled={isBusy}
+              className="bg-slate-900 border border-slate-800 text-emerald-400 text-[9px] font-black uppercase tracking-widest rounded-lg px-1.5 py-1 focus:outline-none max-w-[90px]"
+            >
+              {LANGUAGES.filter(l => l.value !== languageA).map(l => (
+                <option key={l.value} value={l.value}>{l.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
-      <div className="flex-1 flex flex-col gap-1.5 min-h-0 overflow-hidden">
-        <div className="flex-[0.4] min-h-0 bg-slate-900/40 border border-slate-800/50 rounded-2xl p-2.5 flex flex-col shadow-inner shrink-0 overflow-hidden">
-          <div className="flex items-center gap-1.5 mb-1 flex-none">
-            <div className={`w-1.5 h-1.5 rounded-full ${isPressing ? 'bg-red-500 animate-pulse' : 'bg-slate-600'}`}></div>
-            <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest">
-              {isPressing ? "iPhone Mic Active" : "Input Signal"}
-            </span>
-          </div>
-          <div className="flex-1 overflow-y-auto no-scrollbar text-sm text-slate-400 leading-snug font-medium italic">
-            {errorMessage ? (
-              <span className="text-red-500 font-bold uppercase text-[10px] tracking-tight animate-pulse">{errorMessage}</span>
-            ) : (
-              translationData?.original || (isBusy && !translationData ? (uploadProgress ? "Uploading..." : "Analysing...") : isPressing ? "Speak clearly into the microphone." : "Waiting for audio...")
-            )}
+      {mode === 'conversation' ? (
+        <div className="flex-1 flex flex-col gap-1.5 min-h-0 overflow-hidden">
+          <div className="flex-none flex justify-end px-1">
+            <SpeechControls
+              voice={voice}
+              rate={speechRate}
+              autoSpeak={autoSpeak}
+              isSpeaking={isSpeaking}
+              onVoiceChange={setVoice}
+              onRateChange={setSpeechRate}
+              onAutoSpeakChange={setAutoSpeak}
+              canReplay={!isBusy && turns.length > 0}
+              onReplay={() => {
+                const last = turns[turns.length - 1];
+                if (last) toggleSpeech(last.translated, last.targetLanguage);
+              }}
+            />
           </div>
+          <ConversationView
+            turns={turns}
+            languageA={languageA}
+            languageB={languageB}
+            isBusy={isBusy}
+            isFlipped={isFlipped}
+            onSpeakTurn={turn => toggleSpeech(turn.translated, turn.targetLanguage)}
+          />
+          {errorMessage && (
+            <span className="flex-none text-center text-red-500 font-bold uppercase text-[10px] tracking-tight animate-pulse">{errorMessage}</span>
+          )}
         </div>
-
-        <div className="flex-[0.6] min-h-0 bg-indigo-500/5 border border-indigo-500/10 rounded-2xl p-3.5 flex flex-col shadow-lg overflow-hidden">
-          <div className="flex items-center gap-1.5 mb-1 flex-none">
-            <div className={`w-1.5 h-1.5 bg-indigo-500 rounded-full ${isBusy ? 'animate-pulse' : ''}`}></div>
-            <span className="text-[8px] font-black text-indigo-500 uppercase tracking-widest">Gemini Neural Translation</span>
+      ) : (
+        <div className="flex-1 flex flex-col gap-1.5 min-h-0 overflow-hidden">
+          <div className="flex-[0.4] min-h-0 bg-slate-900/40 border border-slate-800/50 rounded-2xl p-2.5 flex flex-col shadow-inner shrink-0 overflow-hidden">
+            <div className="flex items-center gap-1.5 mb-1 flex-none">
+              <div className={`w-1.5 h-1.5 rounded-full ${isPressing ? 'bg-red-500 animate-pulse' : 'bg-slate-600'}`}></div>
+              <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest">
+                {isPressing ? "iPhone Mic Active" : "Input Signal"}
+              </span>
+            </div>
+            <div className="flex-1 overflow-y-auto no-scrollbar text-sm text-slate-400 leading-snug font-medium italic">
+              {errorMessage ? (
+                <span className="text-red-500 font-bold uppercase text-[10px] tracking-tight animate-pulse">{errorMessage}</span>
+              ) : (
+                translationData?.original || (isBusy && !translationData ? (uploadProgress ? "Uploading..." : "Analysing...") : isPressing ? "Speak clearly into the microphone." : "Waiting for audio...")
+              )}
+            </div>
           </div>
-          <div className="flex-1 overflow-y-auto no-scrollbar text-xl text-slate-100 font-extrabold leading-tight tracking-tight">
-            {isBusy ? (
-              <div className="space-y-2 opacity-30">
-                <div className="h-5 bg-slate-800 rounded w-full animate-pulse"></div>
-                <div className="h-5 bg-slate-800 rounded w-4/5 animate-pulse"></div>
+
+          <div className="flex-[0.6] min-h-0 bg-indigo-500/5 border border-indigo-500/10 rounded-2xl p-3.5 flex flex-col shadow-lg overflow-hidden">
+            <div className="flex items-center justify-between mb-1 flex-none">
+              <div className="flex items-center gap-1.5">
+                <div className={`w-1.5 h-1.5 bg-indigo-500 rounded-full ${isBusy ? 'animate-pulse' : ''}`}></div>
+                <span className="text-[8px] font-black text-indigo-500 uppercase tracking-widest">Gemini Neural Translation</span>
               </div>
-            ) : (
-              translationData?.translated || "Standing by..."
-            )}
+              <SpeechControls
+                voice={voice}
+                rate={speechRate}
+                autoSpeak={autoSpeak}
+                isSpeaking={isSpeaking}
+                onVoiceChange={setVoice}
+                onRateChange={setSpeechRate}
+                onAutoSpeakChange={setAutoSpeak}
+                canReplay={!isBusy && !!translationData?.translated}
+                onReplay={() => translationData && toggleSpeech(translationData.translated, lastTranslatedToRef.current || targetLang)}
+              />
+            </div>
+            <div className="flex-1 overflow-y-auto no-scrollbar text-xl text-slate-100 font-extrabold leading-tight tracking-tight">
+              {isBusy ? (
+                <div className="space-y-2 opacity-30">
+                  <div className="h-5 bg-slate-800 rounded w-full animate-pulse"></div>
+                  <div className="h-5 bg-slate-800 rounded w-4/5 animate-pulse"></div>
+                </div>
+              ) : (
+                translationData?.translated || "Standing by..."
+              )}
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       <div className="flex-none flex flex-col items-center pt-2 pb-1 mb-6">
         <div className={`h-6 transition-all duration-300 ${isPressing ? 'opacity-100' : 'opacity-0'}`}>
@@ -323,6 +638,16 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
                 </svg>
                 <span className="text-[5px] font-black uppercase mt-0.5 tracking-tighter">Reset</span>
               </button>
+            ) : mode === 'conversation' && turns.length > 0 ? (
+              <button
+                onClick={() => setTurns([])}
+                className="w-11 h-11 rounded-full bg-slate-900 border border-slate-800 flex flex-col items-center justify-center text-slate-500 active:scale-90 transition-all shadow-lg"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+                <span className="text-[5px] font-black uppercase mt-0.5 tracking-tighter">Clear</span>
+              </button>
             ) : <div className="w-11 h-11"></div>}
           </div>
 
@@ -357,7 +682,19 @@ const Translator: React.FC<TranslatorProps> = ({ status, setStatus, addLog }) =>
             )}
           </button>
 
-          <div className="flex-1"></div>
+          <div className="flex-1 flex justify-start">
+            {mode === 'conversation' ? (
+              <button
+                onClick={() => setIsFlipped(!isFlipped)}
+                className={`w-11 h-11 rounded-full bg-slate-900 border flex flex-col items-center justify-center active:scale-90 transition-all shadow-lg ${isFlipped ? 'border-emerald-500/60 text-emerald-400' : 'border-slate-800 text-slate-500'}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                <span className="text-[5px] font-black uppercase mt-0.5 tracking-tighter">Flip</span>
+              </button>
+            ) : <div className="w-11 h-11"></div>}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,14 @@
+/**
+ * Languages offered by the Translator, glossary and settings pickers. Values
+ * are passed verbatim to the AI prompts.
+ */
+export const LANGUAGES = [
+  { label: 'English', value: 'English' },
+  { label: 'Chinese', value: 'Chinese' },
+  { label: 'Thai', value: 'Thai' },
+  { label: 'Vietnamese', value: 'Vietnamese' },
+  { label: 'Bahasa Indonesia', value: 'Bahasa Indonesia' },
+  { label: 'Japanese', value: 'Japanese' },
+  { label: 'Korean', value: 'Korean' },
+  { label: 'Tagalog', value: 'Tagalog' },
+];
@@ -0,0 +1,74 @@
+import { decodeToMono } from './audioUtils';
+
+/**
+ * Loudness analysis shared by the live Recorder meter and the static waveform
+ * thumbnails on memo cards, so both are drawn on the same scale. Levels are
+ * RMS in dBFS mapped linearly from -60 dB (0) to 0 dB (1).
+ */
+
+const MIN_DB = -60;
+export const SILENCE_LEVEL = 0.25; // about -45 dBFS; anything quieter is not counted as voice
+export const QUIET_LEVEL = 0.4; // about -36 dBFS; speech that never gets this loud is hard to transcribe
+export const WAVEFORM_BARS = 48;
+
+export const rmsLevel = (samples: Float32Array, start = 0, end = samples.length): number => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / Math.max(1, end - start));
+  const db = 20 * Math.log10(rms || 1e-8);
+  return Math.max(0, Math.min(1, (db - MIN_DB) / -MIN_DB));
+};
+
+/**
+ * Per-bar loudness of a whole recording, rounded so it can be stored on the memo.
+ */
+export const computeWaveform = async (blob: Blob, bars = WAVEFORM_BARS): Promise<number[]> => {
+  const samples = await decodeToMono(blob);
+  const size = Math.max(1, Math.floor(samples.length / bars));
+  return Array.from({ length: bars }, (_, i) => {
+    const start = Math.min(samples.length, i * size);
+    const end = Math.min(samples.length, start + size);
+    return Math.round(rmsLevel(samples, start, end) * 100) / 100;
+  });
+};
+
+let waveformChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Waveforms decode the whole recording, so they are computed one at a time.
+ * `load` runs only when the job's turn comes, keeping a single recording in
+ * memory; it resolves undefined when the audio is gone, skipping the job.
+ */
+export const enqueueWaveform = (load: () => Promise<Blob | undefined>): Promise<number[] | undefined> => {
+  const job = waveformChain.then(async () => {
+    const blob = await load();
+    return blob ? computeWaveform(blob) : undefined;
+  });
+  waveformChain = job.catch(() => {});
+  return job;
+};
+
+/**
+ * Reports the live input level once per animation frame until the returned
+ * function is called.
+ */
+export const monitorLevel = (ctx: AudioContext, stream: MediaStream, onLevel: (level: number) => void): (() => void) => {
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  const buffer = new Float32Array(analyser.fftSize);
+  let frame = 0;
+
+  const tick = () => {
+    analyser.getFloatTimeDomainData(buffer);
+    onLevel(rmsLevel(buffer));
+    frame = requestAnimationFrame(tick);
+  };
+  tick();
+
+  return () => {
+    cancelAnimationFrame(frame);
+    source.disconnect();
+  };
+};
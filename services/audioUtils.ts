@@ -0,0 +1,191 @@
+/**
+ * Audio helpers shared by the memo pipeline. Long recordings are decoded,
+ * downmixed to 16 kHz mono (plenty for speech) and re-encoded as WAV segments,
+ * because compressed webm/mp4 containers cannot be cut at arbitrary byte offsets.
+ */
+
+const SEGMENT_SAMPLE_RATE = 16000;
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      const base64String = result.split(',')[1];
+      resolve(base64String);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const decodeToMono = async (blob: Blob): Promise<Float32Array> => {
+  const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  try {
+    const decoded = await ctx.decodeAudioData(await blob.arrayBuffer());
+    const frameCount = Math.ceil(decoded.duration * SEGMENT_SAMPLE_RATE);
+    const offline = new OfflineAudioContext(1, frameCount, SEGMENT_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return rendered.getChannelData(0);
+  } finally {
+    ctx.close();
+  }
+};
+
+/**
+ * Reads the real length of an audio file. Media element metadata is cheap but
+ * reports Infinity for some webm files, so those are fully decoded instead.
+ */
+export const readAudioDuration = async (blob: Blob): Promise<number> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const fromMetadata = await new Promise<number>((resolve, reject) => {
+      const audio = new Audio();
+      audio.preload = 'metadata';
+      audio.onloadedmetadata = () => resolve(audio.duration);
+      audio.onerror = () => reject(new Error('AUDIO_UNREADABLE'));
+      audio.src = url;
+    });
+    if (Number.isFinite(fromMetadata) && fromMetadata > 0) return fromMetadata;
+  } catch (e) {
+    // Fall through to decoding, which handles more containers on some browsers.
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  try {
+    const decoded = await ctx.decodeAudioData(await blob.arrayBuffer());
+    return decoded.duration;
+  } finally {
+    ctx.close();
+  }
+};
+
+const COMPACT_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/mp4'];
+const REENCODE_MARGIN_MS = 15000;
+const RESUME_WAIT_MS = 1000;
+
+/**
+ * Re-encodes audio to the most compact format MediaRecorder offers here
+ * (Opus in webm, AAC in mp4 on Safari). MediaRecorder only consumes live
+ * streams, so the decoded audio is played silently into one and this takes
+ * as long as the recording itself. The caller owns `ctx` so it can create it
+ * inside the tap that started the work: Safari keeps contexts created later
+ * suspended, and a suspended context would never finish playing.
+ */
+export const reencodeAudio = async (ctx: AudioContext, blob: Blob, audioBitsPerSecond: number, signal?: AbortSignal): Promise<Blob> => {
+  const mimeType = COMPACT_MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+  if (!mimeType) throw new Error('REENCODE_UNSUPPORTED');
+  if (ctx.state !== 'running') {
+    // resume() can stay pending forever when the browser refuses it.
+    await Promise.race([ctx.resume(), new Promise(resolve => setTimeout(resolve, RESUME_WAIT_MS))]);
+  }
+  if (ctx.state !== 'running') throw new Error(`REENCODE_SUSPENDED: audio context is ${ctx.state}`);
+
+  const decoded = await ctx.decodeAudioData(await blob.arrayBuffer());
+  const destination = ctx.createMediaStreamDestination();
+  destination.channelCount = 1;
+  const source = ctx.createBufferSource();
+  source.buffer = decoded;
+  source.connect(destination);
+
+  const recorder = new MediaRecorder(destination.stream, { mimeType, audioBitsPerSecond });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const fail = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const onAbort = () => fail(new Error('REENCODE_CANCELLED'));
+      const timer = setTimeout(() => fail(new Error('REENCODE_TIMEOUT: playback did not finish')), decoded.duration * 1000 + REENCODE_MARGIN_MS);
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort);
+      recorder.onstop = () => {
+        cleanup();
+        resolve();
+      };
+      recorder.onerror = () => fail(new Error('REENCODE_FAILED'));
+      source.onended = () => recorder.stop();
+      recorder.start(1000);
+      source.start();
+    });
+  } finally {
+    source.onended = null;
+    source.disconnect();
+    if (recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+  }
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Wraps raw little-endian 16-bit mono PCM (as returned by speech synthesis) in a WAV container.
+ */
+export const pcm16ToWav = (base64Pcm: string, sampleRate: number): Blob => {
+  const binary = atob(base64Pcm);
+  const samples = new Float32Array(Math.floor(binary.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    const lo = binary.charCodeAt(i * 2);
+    const hi = binary.charCodeAt(i * 2 + 1);
+    const value = (hi << 8) | lo;
+    samples[i] = (value >= 0x8000 ? value - 0x10000 : value) / 0x8000;
+  }
+  return encodeWav(samples, sampleRate);
+};
+
+/**
+ * Splits a recording into WAV segments of at most `segmentSeconds` each.
+ */
+export const splitAudioIntoSegments = async (blob: Blob, segmentSeconds: number): Promise<Blob[]> => {
+  const samples = await decodeToMono(blob);
+  const samplesPerSegment = segmentSeconds * SEGMENT_SAMPLE_RATE;
+  const segments: Blob[] = [];
+  for (let start = 0; start < samples.length; start += samplesPerSegment) {
+    segments.push(encodeWav(samples.subarray(start, start + samplesPerSegment), SEGMENT_SAMPLE_RATE));
+  }
+  return segments;
+};
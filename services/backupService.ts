@@ -0,0 +1,97 @@
+import { Memo } from '../types';
+import { getAudio, saveAudio, saveMemos } from './storageService';
+import { createZip, readZip } from './zipUtils';
+
+/**
+ * Library backups are ZIP archives holding `manifest.json` (every Memo field
+ * plus the path of its audio) and one audio file per memo under `audio/`.
+ */
+
+const BACKUP_FORMAT = 'allanecho-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+interface BackupManifest {
+  format: string;
+  version: number;
+  exportedAt: number;
+  memos: (Memo & { audioFile?: string })[];
+}
+
+export interface ImportSummary {
+  imported: Memo[];
+  skipped: number;
+  missingAudio: number;
+}
+
+const extensionFor = (mimeType: string) => mimeType.split('/')[1]?.replace('x-', '') || 'bin';
+
+export const exportLibrary = async (memos: Memo[]): Promise<Blob> => {
+  const entries: { name: string; data: Blob }[] = [];
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    memos: [],
+  };
+
+  for (const memo of memos) {
+    // Transient processing state is not worth restoring. Unfinished memos have
+    // no job after an import, so they are exported as failed for "Retry all failed".
+    const { isProcessing, isQueued, segmentProgress, ...rest } = memo;
+    const unfinished = isProcessing || isQueued ? { error: true, summary: 'Not processed before export' } : {};
+    const audio = await getAudio(memo.id);
+    const audioFile = audio ? `audio/${memo.id}.${extensionFor(memo.mimeType)}` : undefined;
+    if (audio && audioFile) entries.push({ name: audioFile, data: audio });
+    manifest.memos.push({ ...rest, ...unfinished, audioFile });
+  }
+
+  entries.unshift({ name: MANIFEST_NAME, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) });
+  return createZip(entries);
+};
+
+/**
+ * Restores memos from a backup archive. Memos whose id already exists in
+ * the library are skipped, so importing the same archive twice is harmless.
+ */
+export const importLibrary = async (archive: Blob, existingIds: Set<string>): Promise<ImportSummary> => {
+  const files = await readZip(archive);
+  const manifestBlob = files.get(MANIFEST_NAME);
+  if (!manifestBlob) throw new Error('BACKUP_INVALID: manifest.json not found');
+
+  const manifest: BackupManifest = JSON.parse(await manifestBlob.text());
+  if (manifest.format !== BACKUP_FORMAT) throw new Error('BACKUP_INVALID: not an AllanEcho backup');
+  if (manifest.version > BACKUP_VERSION) throw new Error(`BACKUP_UNSUPPORTED: version ${manifest.version}`);
+
+  const imported: Memo[] = [];
+  let skipped = 0;
+  let missingAudio = 0;
+
+  for (const { audioFile, ...memo } of manifest.memos) {
+    if (existingIds.has(memo.id)) {
+      skipped++;
+      continue;
+    }
+    const audio = audioFile ? files.get(audioFile) : undefined;
+    if (audio) {
+      await saveAudio(memo.id, new Blob([audio], { type: memo.mimeType }));
+    } else {
+      missingAudio++;
+    }
+    imported.push(memo);
+  }
+
+  await saveMemos(imported);
+  return { imported, skipped, missingAudio };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
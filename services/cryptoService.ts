@@ -0,0 +1,121 @@
+/**
+ * Passcode lock and at-rest encryption. A 256-bit AES-GCM key is derived
+ * from the passcode with PBKDF2; only the salt and an encrypted check value
+ * are persisted, so the passcode itself is never stored.
+ */
+
+const LOCK_STORAGE_KEY = 'allanecho_lock';
+const PBKDF2_ITERATIONS = 310000;
+const IV_LENGTH = 12;
+const CHECK_PLAINTEXT = 'allanecho-vault';
+
+export const AUTO_LOCK_OPTIONS: { label: string; minutes: number }[] = [
+  { label: '1 min', minutes: 1 },
+  { label: '5 min', minutes: 5 },
+  { label: '15 min', minutes: 15 },
+  { label: '1 hour', minutes: 60 },
+  { label: 'Never', minutes: 0 },
+];
+
+interface LockConfig {
+  salt: string;
+  iterations: number;
+  check: string;
+  autoLockMinutes: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const readConfig = (): LockConfig | null => {
+  const saved = localStorage.getItem(LOCK_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : null;
+};
+
+const deriveKey = async (passcode: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts bytes as `iv || ciphertext` with a fresh random IV.
+ */
+export const encryptBytes = async (key: CryptoKey, data: BufferSource): Promise<ArrayBuffer> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data));
+  const sealed = new Uint8Array(IV_LENGTH + cipher.length);
+  sealed.set(iv, 0);
+  sealed.set(cipher, IV_LENGTH);
+  return sealed.buffer;
+};
+
+export const decryptBytes = async (key: CryptoKey, sealed: ArrayBuffer): Promise<ArrayBuffer> => {
+  const bytes = new Uint8Array(sealed);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH) }, key, bytes.subarray(IV_LENGTH));
+};
+
+export const encryptJson = (key: CryptoKey, value: unknown) =>
+  encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+export const decryptJson = async <T>(key: CryptoKey, sealed: ArrayBuffer): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await decryptBytes(key, sealed)));
+
+export const isLockEnabled = (): boolean => readConfig() !== null;
+
+export const getAutoLockMinutes = (): number => readConfig()?.autoLockMinutes ?? 0;
+
+export const setAutoLockMinutes = (minutes: number) => {
+  const config = readConfig();
+  if (!config) return;
+  localStorage.setItem(LOCK_STORAGE_KEY, JSON.stringify({ ...config, autoLockMinutes: minutes }));
+};
+
+/**
+ * Derives a key for a new passcode. Nothing is persisted until `save` is
+ * called, so the caller can re-encrypt the vault first and abandon the lock
+ * if that fails.
+ */
+export const createLock = async (passcode: string, autoLockMinutes: number): Promise<{ key: CryptoKey; save: () => void }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passcode, salt, PBKDF2_ITERATIONS);
+  const check = await encryptBytes(key, new TextEncoder().encode(CHECK_PLAINTEXT));
+  const config: LockConfig = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: toBase64(new Uint8Array(check)),
+    autoLockMinutes,
+  };
+  return { key, save: () => localStorage.setItem(LOCK_STORAGE_KEY, JSON.stringify(config)) };
+};
+
+/**
+ * Returns the vault key for a passcode, or throws LOCK_INVALID when the
+ * passcode does not decrypt the stored check value.
+ */
+export const unlockWithPasscode = async (passcode: string): Promise<CryptoKey> => {
+  const config = readConfig();
+  if (!config) throw new Error('LOCK_MISSING: no passcode is set');
+  const key = await deriveKey(passcode, fromBase64(config.salt), config.iterations);
+  try {
+    const check = await decryptBytes(key, fromBase64(config.check).buffer);
+    if (new TextDecoder().decode(check) !== CHECK_PLAINTEXT) throw new Error();
+  } catch {
+    throw new Error('LOCK_INVALID: incorrect passcode');
+  }
+  return key;
+};
+
+export const removeLock = () => {
+  localStorage.removeItem(LOCK_STORAGE_KEY);
+};
@@ -0,0 +1,93 @@
+import { Digest, DigestPeriod, DigestSource, Memo } from '../types';
+import { applySpeakerNames } from './speakerUtils';
+import { getMemoTitle } from './exportService';
+
+/**
+ * Period arithmetic and formatting for digests. Periods are in local time:
+ * a day starts at midnight and a week on Monday.
+ */
+
+export const getPeriodStart = (timestamp: number, period: DigestPeriod): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week') date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+// Built with setDate rather than adding milliseconds so DST changes don't shift the boundary.
+export const getPeriodEnd = (start: number, period: DigestPeriod): number => {
+  const date = new Date(start);
+  date.setDate(date.getDate() + (period === 'week' ? 7 : 1));
+  return date.getTime();
+};
+
+export const formatPeriod = (start: number, period: DigestPeriod): string => {
+  const format = (t: number) => new Intl.DateTimeFormat('en-US', { weekday: period === 'day' ? 'long' : undefined, month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(t));
+  if (period === 'day') return format(start);
+  return `Week of ${format(start)}`;
+};
+
+/**
+ * Memos recorded in the period that have finished processing, oldest first
+ * so the digest reads chronologically.
+ */
+export const memosInPeriod = (memos: Memo[], start: number, period: DigestPeriod): Memo[] => {
+  const end = getPeriodEnd(start, period);
+  return memos
+    .filter(m => m.timestamp >= start && m.timestamp < end && !m.isProcessing && !m.isQueued && !m.error)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const toDigestSource = (memo: Memo): DigestSource => {
+  const named = (text: string) => applySpeakerNames(text, memo.speakerNames);
+  return {
+    title: getMemoTitle(memo),
+    timestamp: memo.timestamp,
+    summary: named(memo.summary),
+    keyPoints: (memo.keyPoints || []).map(named),
+    actionItems: (memo.actionItems || []).map(a => ({ ...a, task: named(a.task), owner: a.owner && named(a.owner) })),
+  };
+};
+
+const formatMemoTime = (timestamp: number) => new Intl.DateTimeFormat('en-US', {
+  weekday: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+}).format(new Date(timestamp));
+
+export const digestToMarkdown = (digest: Digest, memos: Memo[]): string => {
+  const sources = digest.memoIds.map(id => memos.find(m => m.id === id)).filter((m): m is Memo => !!m);
+  const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`) : ['_None_'];
+  return [
+    `# ${digest.title}`,
+    '',
+    `_${formatPeriod(digest.periodStart, digest.period)} · ${digest.memoIds.length} memos_`,
+    '',
+    digest.overview,
+    '',
+    '## Themes',
+    '',
+    ...list(digest.themes),
+    '',
+    '## Decisions',
+    '',
+    ...list(digest.decisions),
+    '',
+    '## Open Action Items',
+    '',
+    ...(digest.actionItems.length > 0
+      ? digest.actionItems.map(a => `- [ ] ${a.task}${a.owner ? ` (@${a.owner})` : ''}${a.dueDate ? ` - due ${a.dueDate}` : ''}`)
+      : ['_None_']),
+    '',
+    '## Source Memos',
+    '',
+    ...list(sources.map(m => `${getMemoTitle(m)} (${formatMemoTime(m.timestamp)})`)),
+    '',
+  ].join('\n');
+};
+
+export const digestFilename = (digest: Digest): string => {
+  const date = new Date(digest.periodStart);
+  const stamp = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  return `allanecho-${digest.period === 'day' ? 'daily' : 'weekly'}-digest-${stamp}.md`;
+};
@@ -0,0 +1,167 @@
+import { Memo, TranscriptSegment } from '../types';
+import { applySpeakerNames, getSpeakerName } from './speakerUtils';
+
+/**
+ * Text exporters for a single memo. Each returns the file contents only, so
+ * card actions, clipboard copy and any bulk export can share them.
+ */
+
+export type ExportFormat = 'srt' | 'vtt' | 'md' | 'txt' | 'html';
+
+export const EXPORT_FORMATS: { label: string; format: ExportFormat; mimeType: string; extension: string }[] = [
+  { label: 'SRT', format: 'srt', mimeType: 'application/x-subrip', extension: 'srt' },
+  { label: 'WebVTT', format: 'vtt', mimeType: 'text/vtt', extension: 'vtt' },
+  { label: 'Markdown', format: 'md', mimeType: 'text/markdown', extension: 'md' },
+  { label: 'Text', format: 'txt', mimeType: 'text/plain', extension: 'txt' },
+  { label: 'Word', format: 'html', mimeType: 'application/msword', extension: 'doc' },
+];
+
+export const getMemoTitle = (memo: Memo): string => {
+  if (memo.title) return applySpeakerNames(memo.title, memo.speakerNames);
+  return memo.fileName || `Memo_${memo.id.slice(0, 4)}`;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+// Memos transcribed before segments existed get a single cue over the whole recording.
+const captionSegments = (memo: Memo): TranscriptSegment[] => {
+  if (memo.segments && memo.segments.length > 0) return memo.segments;
+  return [{ start: 0, end: memo.duration, text: memo.transcript }];
+};
+
+const cueText = (memo: Memo, seg: TranscriptSegment) => {
+  const text = seg.text.trim();
+  return seg.speaker ? `${getSpeakerName(seg.speaker, memo.speakerNames)}: ${text}` : text;
+};
+
+export const toSrt = (memo: Memo): string => {
+  return captionSegments(memo)
+    .map((seg, i) => `${i + 1}\n${formatTimestamp(seg.start, ',')} --> ${formatTimestamp(seg.end, ',')}\n${cueText(memo, seg)}\n`)
+    .join('\n');
+};
+
+export const toWebVtt = (memo: Memo): string => {
+  const cues = captionSegments(memo)
+    .map(seg => `${formatTimestamp(seg.start, '.')} --> ${formatTimestamp(seg.end, '.')}\n${cueText(memo, seg)}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+};
+
+const transcriptLines = (memo: Memo): string[] => {
+  if (memo.segments && memo.segments.length > 0) return memo.segments.map(seg => cueText(memo, seg));
+  return [applySpeakerNames(memo.transcript, memo.speakerNames)];
+};
+
+export const toMarkdown = (memo: Memo): string => {
+  const named = (text: string) => applySpeakerNames(text, memo.speakerNames);
+  const lines = [
+    `# ${getMemoTitle(memo)}`,
+    '',
+    `*${new Date(memo.timestamp).toLocaleString()}*`,
+    '',
+    '## Summary',
+    '',
+    named(memo.summary),
+  ];
+  if (memo.keyPoints?.length) {
+    lines.push('', '## Key Points', '', ...memo.keyPoints.map(p => `- ${named(p)}`));
+  }
+  if (memo.actionItems?.length) {
+    lines.push('', '## Action Items', '', ...memo.actionItems.map(item => {
+      const meta = [item.owner && `@${named(item.owner)}`, item.dueDate && `due ${item.dueDate}`].filter(Boolean).join(', ');
+      return `- [ ] ${named(item.task)}${meta ? ` (${meta})` : ''}`;
+    }));
+  }
+  lines.push('', '## Transcript', '', transcriptLines(memo).join('\n\n'), '');
+  return lines.join('\n');
+};
+
+export const toPlainText = (memo: Memo): string => {
+  return [
+    getMemoTitle(memo),
+    new Date(memo.timestamp).toLocaleString(),
+    '',
+    'SUMMARY',
+    applySpeakerNames(memo.summary, memo.speakerNames),
+    '',
+    'TRANSCRIPT',
+    transcriptLines(memo).join('\n'),
+    '',
+  ].join('\n');
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * An HTML document with the Office namespaces and meta tags, which Word opens
+ * as a regular document when saved with a .doc extension.
+ */
+export const toWordHtml = (memo: Memo): string => {
+  const named = (text: string) => escapeHtml(applySpeakerNames(text, memo.speakerNames));
+  const title = escapeHtml(getMemoTitle(memo));
+  const body = [
+    `<h1>${title}</h1>`,
+    `<p><i>${escapeHtml(new Date(memo.timestamp).toLocaleString())}</i></p>`,
+    '<h2>Summary</h2>',
+    `<p>${named(memo.summary)}</p>`,
+  ];
+  if (memo.keyPoints?.length) {
+    body.push('<h2>Key Points</h2>', `<ul>${memo.keyPoints.map(p => `<li>${named(p)}</li>`).join('')}</ul>`);
+  }
+  if (memo.actionItems?.length) {
+    body.push('<h2>Action Items</h2>', `<ul>${memo.actionItems.map(item => {
+      const meta = [item.owner && `@${named(item.owner)}`, item.dueDate && `due ${escapeHtml(item.dueDate)}`].filter(Boolean).join(', ');
+      return `<li>${named(item.task)}${meta ? ` (${meta})` : ''}</li>`;
+    }).join('')}</ul>`);
+  }
+  body.push('<h2>Transcript</h2>', ...transcriptLines(memo).map(line => `<p>${escapeHtml(line)}</p>`));
+  return [
+    '<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="ProgId" content="Word.Document">',
+    '<meta name="Generator" content="Microsoft Word 15">',
+    `<title>${title}</title>`,
+    '<!--[if gte mso 9]><xml><w:WordDocument><w:View>Print</w:View><w:Zoom>100</w:Zoom></w:WordDocument></xml><![endif]-->',
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
+
+const RENDERERS: Record<ExportFormat, (memo: Memo) => string> = {
+  srt: toSrt,
+  vtt: toWebVtt,
+  md: toMarkdown,
+  txt: toPlainText,
+  html: toWordHtml,
+};
+
+const safeFileName = (name: string) => name.replace(/[^\p{L}\p{N}\-_ ]+/gu, '').trim().replace(/\s+/g, '-') || 'memo';
+
+export const exportMemo = (memo: Memo, format: ExportFormat): { blob: Blob; filename: string } => {
+  const spec = EXPORT_FORMATS.find(f => f.format === format)!;
+  return {
+    blob: new Blob([RENDERERS[format](memo)], { type: `${spec.mimeType};charset=utf-8` }),
+    filename: `${safeFileName(getMemoTitle(memo))}.${spec.extension}`,
+  };
+};
+
+export const copyMemoToClipboard = async (memo: Memo): Promise<void> => {
+  await navigator.clipboard.writeText(toPlainText(memo));
+};
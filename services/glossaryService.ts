@@ -0,0 +1,132 @@
+import { GlossaryTerm } from '../types';
+
+/**
+ * User glossary of names and jargon. Providers read it through the prompt
+ * helpers below so every transcription and translation call sees the same
+ * terms. Stored in localStorage alongside the settings.
+ */
+
+const GLOSSARY_STORAGE_KEY = 'allanecho_glossary';
+const TERM_COLUMN = 'term';
+
+const readGlossary = (): GlossaryTerm[] => {
+  try {
+    const saved = localStorage.getItem(GLOSSARY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+let current: GlossaryTerm[] = readGlossary();
+
+export const getGlossary = (): GlossaryTerm[] => current;
+
+export const saveGlossary = (terms: GlossaryTerm[]): GlossaryTerm[] => {
+  current = terms;
+  localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(terms));
+  return current;
+};
+
+/**
+ * Merges imported terms into a glossary. Terms match case-insensitively;
+ * imported translations win over existing ones for the same language.
+ */
+export const mergeGlossary = (existing: GlossaryTerm[], incoming: GlossaryTerm[]): GlossaryTerm[] => {
+  const merged = [...existing];
+  incoming.forEach(term => {
+    const index = merged.findIndex(t => t.term.toLowerCase() === term.term.toLowerCase());
+    if (index < 0) {
+      merged.push(term);
+    } else {
+      merged[index] = { ...merged[index], term: term.term, translations: { ...merged[index].translations, ...term.translations } };
+    }
+  });
+  return merged;
+};
+
+export const buildTranscriptionGlossaryPrompt = (): string => {
+  if (current.length === 0) return '';
+  return `\nThe audio may mention these names and terms. Whenever one is spoken, write it exactly as spelled here: ${current.map(t => `"${t.term}"`).join(', ')}.`;
+};
+
+export const buildTranslationGlossaryPrompt = (targetLanguages: string[]): string => {
+  if (current.length === 0) return '';
+  const lines = current.map(t => {
+    const forced = targetLanguages
+      .filter(lang => t.translations[lang]?.trim())
+      .map(lang => `in ${lang} always "${t.translations[lang].trim()}"`);
+    return `- "${t.term}": ${forced.length > 0 ? forced.join('; ') : 'keep as is, do not translate'}`;
+  });
+  return `\nGlossary. Spell these terms exactly as given in the original text, and translate them as listed:\n${lines.join('\n')}`;
+};
+
+const escapeCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * One row per term: the `term` column, then one column per language that
+ * has at least one forced translation.
+ */
+export const glossaryToCsv = (terms: GlossaryTerm[]): string => {
+  const languages = Array.from(new Set(terms.flatMap(t => Object.keys(t.translations))));
+  const rows = [[TERM_COLUMN, ...languages], ...terms.map(t => [t.term, ...languages.map(lang => t.translations[lang] || '')])];
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+const parseCsvRows = (csv: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = csv.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+export const parseGlossaryCsv = (csv: string): GlossaryTerm[] => {
+  const [header, ...rows] = parseCsvRows(csv);
+  if (!header || header[0].trim().toLowerCase() !== TERM_COLUMN) {
+    throw new Error(`GLOSSARY_INVALID: first column must be "${TERM_COLUMN}"`);
+  }
+  const languages = header.slice(1).map(h => h.trim());
+  return rows
+    .filter(row => row[0]?.trim())
+    .map(row => {
+      const translations: Record<string, string> = {};
+      languages.forEach((lang, i) => {
+        const value = row[i + 1]?.trim();
+        if (lang && value) translations[lang] = value;
+      });
+      return { id: crypto.randomUUID(), term: row[0].trim(), translations };
+    });
+};
@@ -0,0 +1,44 @@
+import { isSupportedMimeType } from './providers/geminiProvider';
+import { readAudioDuration } from './audioUtils';
+
+/**
+ * Turns audio files from other apps into something the memo pipeline can take.
+ * Browsers often leave File.type empty (or report video/mp4 for .m4a), so the
+ * extension is used as a fallback before checking the format is supported.
+ */
+
+const EXTENSION_TYPES: Record<string, string> = {
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+};
+
+export const AUDIO_FILE_ACCEPT = ['audio/*', ...Object.keys(EXTENSION_TYPES).map(ext => `.${ext}`)].join(',');
+
+export interface ImportedAudio {
+  blob: Blob;
+  duration: number;
+  fileName: string;
+}
+
+const resolveAudioType = (file: File): string | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const type = file.type.startsWith('audio/') ? file.type : EXTENSION_TYPES[extension] ?? '';
+  return type && isSupportedMimeType(type) ? type : null;
+};
+
+export const readAudioFile = async (file: File): Promise<ImportedAudio> => {
+  const type = resolveAudioType(file);
+  if (!type) throw new Error(`UNSUPPORTED_AUDIO: ${file.name} (${file.type || 'unknown type'})`);
+  const blob = file.type === type ? file : new Blob([file], { type });
+  let duration: number;
+  try {
+    duration = await readAudioDuration(blob);
+  } catch (e: any) {
+    throw new Error(`AUDIO_UNREADABLE: ${file.name} (${e.message})`);
+  }
+  return { blob, duration, fileName: file.name };
+};
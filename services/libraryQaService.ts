@@ -0,0 +1,95 @@
+import { LibrarySource, Memo } from '../types';
+import { tokenize } from './searchService';
+import { getSpeakerName } from './speakerUtils';
+import { getMemoTitle } from './exportService';
+
+/**
+ * Keyword retrieval for questions asked across the whole library. Transcripts
+ * are cut into short timed passages and ranked with BM25, so only the few
+ * excerpts that matter are sent to the model and each one can be cited back
+ * to a moment in its memo.
+ */
+
+export const MAX_SOURCES = 8;
+const PASSAGE_MAX_CHARS = 500;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'at', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'how',
+  'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'said', 'the', 'that', 'this', 'to', 'was', 'we',
+  'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you', 'last', 'week', 'yesterday', 'today',
+]);
+
+const buildPassages = (memo: Memo): LibrarySource[] => {
+  const base = { memoId: memo.id, memoTitle: getMemoTitle(memo), timestamp: memo.timestamp };
+  const summary = [memo.title, memo.summary, ...(memo.keyPoints || [])].filter(Boolean).join('\n');
+  const passages: LibrarySource[] = [{ ...base, id: `${memo.id}:summary`, text: summary }];
+
+  if (memo.segments && memo.segments.length > 0) {
+    let current: LibrarySource | null = null;
+    memo.segments.forEach(seg => {
+      const line = seg.speaker ? `${getSpeakerName(seg.speaker, memo.speakerNames)}: ${seg.text}` : seg.text;
+      if (current && current.text.length + line.length <= PASSAGE_MAX_CHARS) {
+        current.text += `\n${line}`;
+        return;
+      }
+      current = { ...base, id: `${memo.id}:${passages.length}`, start: seg.start, text: line };
+      passages.push(current);
+    });
+  } else if (memo.transcript) {
+    // Older memos have no timings; split on sentences so passages stay short.
+    const sentences = memo.transcript.split(/(?<=[.!?])\s+/);
+    let text = '';
+    sentences.forEach(sentence => {
+      if (text && text.length + sentence.length > PASSAGE_MAX_CHARS) {
+        passages.push({ ...base, id: `${memo.id}:${passages.length}`, text });
+        text = '';
+      }
+      text = text ? `${text} ${sentence}` : sentence;
+    });
+    if (text) passages.push({ ...base, id: `${memo.id}:${passages.length}`, text });
+  }
+  return passages;
+};
+
+const matchesTerm = (token: string, term: string) => token === term || (term.length >= 4 && token.startsWith(term));
+
+/**
+ * The best excerpts for a question. When no keyword matches (e.g. "what did I
+ * record this morning?") the summaries of the most recent memos are returned,
+ * so the model can still answer from dates.
+ */
+export const retrieveSources = (memos: Memo[], question: string, limit = MAX_SOURCES): LibrarySource[] => {
+  const ready = memos.filter(m => !m.isProcessing && !m.error);
+  const passages = ready.flatMap(buildPassages);
+  const terms = Array.from(new Set(tokenize(question).filter(t => !STOP_WORDS.has(t))));
+
+  if (terms.length > 0 && passages.length > 0) {
+    const docs = passages.map(p => tokenize(p.text));
+    const avgLength = docs.reduce((n, d) => n + d.length, 0) / docs.length || 1;
+    const docFrequency = terms.map(term => docs.filter(d => d.some(t => matchesTerm(t, term))).length);
+
+    const ranked = passages
+      .map((passage, i) => {
+        const doc = docs[i];
+        const score = terms.reduce((sum, term, j) => {
+          const tf = doc.filter(t => matchesTerm(t, term)).length;
+          if (tf === 0) return sum;
+          const idf = Math.log(1 + (passages.length - docFrequency[j] + 0.5) / (docFrequency[j] + 0.5));
+          return sum + idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+        }, 0);
+        return { passage, score };
+      })
+      .filter(r => r.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(r => r.passage);
+    if (ranked.length > 0) return ranked;
+  }
+
+  return [...ready]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, limit)
+    .map(memo => buildPassages(memo)[0]);
+};
@@ -0,0 +1,421 @@
+
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { pcm16ToWav } from "../audioUtils";
+import { getSettings } from "../settingsService";
+import { buildTranscriptionGlossaryPrompt, buildTranslationGlossaryPrompt } from "../glossaryService";
+import { AIProvider, ConversationTurnResult, DigestInsights, DigestPeriod, DigestSource, LibraryAnswer, LibrarySource, MemoInsights, SummaryOptions, SummaryLength, SummaryStyle, TranscriptionOptions, TranscriptionResult, TranslationResult } from "../../types";
+
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const TTS_SAMPLE_RATE = 24000;
+
+const SUMMARY_LENGTH_PROMPTS: Record<SummaryLength, { summary: string; keyPoints: string }> = {
+  brief: { summary: 'Summarize it in one short sentence.', keyPoints: 'List at most 3 key points as short bullets.' },
+  standard: { summary: 'Summarize it in 1-2 concise sentences.', keyPoints: 'List the key points as short bullets.' },
+  detailed: { summary: 'Summarize it in a paragraph of 3-5 sentences.', keyPoints: 'List every key point, including supporting details.' },
+};
+
+const SUMMARY_STYLE_PROMPTS: Record<SummaryStyle, string> = {
+  neutral: '',
+  professional: 'Write in a formal, professional tone suitable for meeting notes.',
+  casual: 'Write in a relaxed, conversational tone.',
+};
+
+const getAIClient = () => {
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+// Read per call so a model change in Config applies without a reload.
+const getModel = () => getSettings().model;
+
+const matchMimeType = (mimeType: string): string | null => {
+  const lower = mimeType.toLowerCase();
+  if (lower.includes('webm')) return 'audio/webm';
+  // Standardize all Apple formats to audio/mp4 for Gemini compatibility
+  if (lower.includes('mp4') || lower.includes('m4a') || lower.includes('x-m4a') || lower.includes('aac')) {
+    return 'audio/mp4';
+  }
+  if (lower.includes('mpeg') || lower.includes('mp3')) return 'audio/mpeg';
+  if (lower.includes('wav')) return 'audio/wav';
+  return null;
+};
+
+/**
+ * Normalizes MIME types for Gemini API.
+ * iOS Safari typically produces 'audio/mp4' or 'audio/x-m4a'.
+ * Gemini prefers 'audio/mp4' for these formats.
+ */
+export const normalizeMimeType = (mimeType: string): string => {
+  return matchMimeType(mimeType) ?? 'audio/mp4'; // Robust default for mobile
+};
+
+/**
+ * True when the type maps to a format Gemini accepts, without falling back to the mobile default.
+ */
+export const isSupportedMimeType = (mimeType: string): boolean => matchMimeType(mimeType) !== null;
+
+const transcribeAudio = async (base64Audio: string, mimeType: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> => {
+  const ai = getAIClient();
+  const normalizedMime = normalizeMimeType(mimeType);
+  try {
+    const response = await ai.models.generateContent({
+      model: getModel(),
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: normalizedMime,
+              data: base64Audio
+            }
+          },
+          {
+            text: `Transcribe this audio exactly in its original language.
+            Split the transcription into segments of about one sentence each.
+            For every segment give its start and end time in seconds from the beginning of the audio.${options.diarize ? `
+            Identify the distinct speakers. Label them "Speaker 1", "Speaker 2" and so on in order of first appearance, and start a new segment whenever the speaker changes.` : ''}${buildTranscriptionGlossaryPrompt()}`
+          }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            segments: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  start: { type: Type.NUMBER, description: "Start time in seconds." },
+                  end: { type: Type.NUMBER, description: "End time in seconds." },
+                  text: { type: Type.STRING, description: "Verbatim text of the segment." },
+                  ...(options.diarize ? { speaker: { type: Type.STRING, description: "Speaker label, e.g. Speaker 1." } } : {})
+                },
+                required: options.diarize ? ["start", "end", "text", "speaker"] : ["start", "end", "text"]
+              }
+            }
+          },
+          required: ["segments"]
+        },
+        thinkingConfig: { thinkingBudget: 0 }
+      }
+    });
+
+    const raw = response.text || "";
+    try {
+      const { segments } = JSON.parse(raw) as { segments: TranscriptionResult['segments'] };
+      const text = segments.map(s => s.text.trim()).join(' ');
+      return { text: text || "Transcription produced no text.", segments };
+    } catch (e) {
+      return { text: raw.trim() || "Transcription produced no text.", segments: [] };
+    }
+  } catch (error: any) {
+    console.error("Transcription API error:", error);
+    const msg = error.message || "Unknown API Error";
+    throw new Error(`TRANSCRIPTION_FAILED: ${msg} (Mime: ${normalizedMime})`);
+  }
+};
+
+const summarizeTranscript = async (transcript: string, options: SummaryOptions = {}): Promise<MemoInsights> => {
+  const ai = getAIClient();
+  const length = SUMMARY_LENGTH_PROMPTS[options.length ?? 'standard'];
+  const style = SUMMARY_STYLE_PROMPTS[options.style ?? 'neutral'];
+  try {
+    const response = await ai.models.generateContent({
+      model: getModel(),
+      contents: `Analyse the following voice memo transcript. Respond in the transcript's language. ${style}
+      1. Write a short title (max 8 words).
+      2. ${length.summary}
+      3. ${length.keyPoints}
+      4. Extract action items, with the owner and due date only when they are stated.
+      5. Suggest up to 5 short lowercase tags.
+      \n\n ${transcript}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING, description: "Short descriptive title." },
+            summary: { type: Type.STRING, description: "Summary of the memo." },
+            keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+            actionItems: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  task: { type: Type.STRING },
+                  owner: { type: Type.STRING, description: "Person responsible, if mentioned." },
+                  dueDate: { type: Type.STRING, description: "Due date as spoken, if mentioned." }
+                },
+                required: ["task"]
+              }
+            },
+            tags: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["title", "summary", "keyPoints", "actionItems", "tags"]
+        },
+        thinkingConfig: { thinkingBudget: 0 }
+      }
+    });
+
+    const text = response.text || "";
+    try {
+      return JSON.parse(text);
+    } catch (e) {
+      return { title: "", summary: text.trim() || "Summary failed.", keyPoints: [], actionItems: [], tags: [] };
+    }
+  } catch (error: any) {
+    console.error("Summarization API error:", error);
+    throw new Error(`SUMMARIZATION_FAILED: ${error.message}`);
+  }
+};
+
+const translateAudio = async (base64Audio: string, mimeType: string, targetLanguage: string): Promise<TranslationResult> => {
+  const ai = getAIClient();
+  const normalizedMime = normalizeMimeType(mimeType);
+  try {
+    const response = await ai.models.generateContent({
+      model: getModel(),
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: normalizedMime,
+              data: base64Audio
+            }
+          },
+          {
+            text: `Detect the spoken language. 
+            1. Transcribe the audio verbatim in its original spoken language. 
+            2. Translate that transcription into ${targetLanguage}. 
+            Return the result as a JSON object with keys "original", "translated" and "sourceLanguage" (the detected language's English name).${buildTranslationGlossaryPrompt([targetLanguage])}`
+          }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            original: { 
+              type: Type.STRING,
+              description: "Verbatim transcription of the audio."
+            },
+            translated: { 
+              type: Type.STRING, 
+              description: "The translation."
+            },
+            sourceLanguage: {
+              type: Type.STRING,
+              description: "English name of the detected spoken language, e.g. Thai."
+            }
+          },
+          required: ["original", "translated", "sourceLanguage"]
+        },
+        thinkingConfig: { thinkingBudget: 0 }
+      }
+    });
+    
+    const text = response.text || "";
+    try {
+      return JSON.parse(text);
+    } catch (e) {
+      return { original: "Audio processed", translated: text };
+    }
+  } catch (error: any) {
+    console.error("Translate Audio API error:", error);
+    const msg = error.message || "Unknown API Error";
+    throw new Error(`API_REJECTED: ${msg} (Mime: ${normalizedMime}, Size: ${Math.round(base64Audio.length * 0.75 / 1024)}KB)`);
+  }
+};
+
+const translateText = async (text: string, targetLanguage: string): Promise<string> => {
+  const ai = getAIClient();
+  try {
+    const response = await ai.models.generateContent({
+      model: getModel(),
+      contents: `Translate the following text to ${targetLanguage}. Return ONLY the translation text itself.${buildTranslationGlossaryPrompt([targetLanguage])} \n\n ${text}`,
+      config: {
+        thinkingConfig: { thinkingBudget: 0 }
+      }
+    });
+    return response.text?.trim() || "Translation failed.";
+  } catch (error: any) {
+    console.error("Translate Text API error:", error);
+    throw new Error(`TEXT_TRANSLATION_FAILED: ${error.message}`);
+  }
+};
+
+const translateConversationTurn = async (base64Audio: string, mimeType: string, languageA: string, languageB: string): Promise<ConversationTurnResult> => {
+  const ai = getAIClient();
+  const normalizedMime = normalizeMimeType(mimeType);
+  try {
+    const response = await ai.models.generateContent({
+      model: getModel(),
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: normalizedMime,
+              data: base64Audio
+            }
+          },
+          {
+            text: `This is one turn of a conversation between a ${languageA} speaker and a ${languageB} speaker.
+            1. Decide whether the speech is in ${languageA} or ${languageB}.
+            2. Transcribe the audio verbatim in its original spoken language.
+            3. Translate it into the other language of the pair.
+            Return "sourceLanguage" and "targetLanguage" exactly as "${languageA}" or "${languageB}".${buildTranslationGlossaryPrompt([languageA, languageB])}`
+          }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            original: { type: Type.STRING, description: "Verbatim transcription of the audio." },
+            translated: { type: Type.STRING, description: "The translation." },
+            sourceLanguage: { type: Type.STRING, enum: [languageA, languageB] },
+            targetLanguage: { type: Type.STRING, enum: [languageA, languageB] }
+          },
+          required: ["original", "translated", "sourceLanguage", "targetLanguage"]
+        },
+        thinkingConfig: { thinkingBudget: 0 }
+      }
+    });
+    return JSON.parse(response.text || "");
+  } catch (error: any) {
+    console.error("Conversation turn API error:", error);
+    const msg = error.message || "Unknown API Error";
+    throw new Error(`CONVERSATION_TURN_FAILED: ${msg} (Mime: ${normalizedMime})`);
+  }
+};
+
+const synthesizeSpeech = async (text: string, language: string, voice: string): Promise<Blob> => {
+  const ai = getAIClient();
+  try {
+    const response = await ai.models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: `Say clearly in ${language}: ${text}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } }
+        }
+      }
+    });
+    const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!data) throw new Error("No audio returned");
+    return pcm16ToWav(data, TTS_SAMPLE_RATE);
+  } catch (error: any) {
+    console.error("Speech synthesis API error:", error);
+    throw new Error(`SPEECH_SYNTHESIS_FAILED: ${error.message}`);
+  }
+};
+
+const formatSourceHeading = (source: LibrarySource, index: number): string => {
+  const recorded = new Date(source.timestamp).toLocaleString('en-US', { weekday: 'long', year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const at = source.start !== undefined ? `, at ${Math.floor(source.start / 60)}:${String(Math.floor(source.start % 60)).padStart(2, '0')}` : ', summary';
+  return `[${index + 1}] "${source.memoTitle}" recorded ${recorded}${at}`;
+};
+
+const answerQuestion = async (question: string, sources: LibrarySource[]): Promise<LibraryAnswer> => {
+  const ai = getAIClient();
+  const today = new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  try {
+    const response = await ai.models.generateContent({
+      model: getModel(),
+      contents: `You answer questions about the user's own voice memos using only the numbered excerpts below. Today is ${today}.
+      Answer in the language of the question, in a few sentences at most. If the excerpts do not contain the answer, say so plainly.
+      Do not put excerpt numbers in the answer text; list the numbers of the excerpts the answer relies on in "citations".
+      \n\nQuestion: ${question}
+      \n\nExcerpts:\n${sources.map((s, i) => `${formatSourceHeading(s, i)}\n${s.text}`).join('\n\n')}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            answer: { type: Type.STRING },
+            citations: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Numbers of the excerpts used." }
+          },
+          required: ["answer", "citations"]
+        },
+        thinkingConfig: { thinkingBudget: 0 }
+      }
+    });
+
+    const { answer, citations } = JSON.parse(response.text || "") as { answer: string; citations: number[] };
+    return {
+      answer: answer.trim(),
+      citations: Array.from(new Set(citations)).map(n => n - 1).filter(i => i >= 0 && i < sources.length),
+    };
+  } catch (error: any) {
+    console.error("Library question API error:", error);
+    throw new Error(`LIBRARY_ANSWER_FAILED: ${error.message}`);
+  }
+};
+
+const generateDigest = async (memos: DigestSource[], period: DigestPeriod): Promise<DigestInsights> => {
+  const ai = getAIClient();
+  const { summaryStyle } = getSettings();
+  const entries = memos.map((m, i) => {
+    const recorded = new Date(m.timestamp).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+    const actions = m.actionItems.map(a => `- ${a.task}${a.owner ? ` (owner: ${a.owner})` : ''}${a.dueDate ? ` (due: ${a.dueDate})` : ''}`);
+    return [`[${i + 1}] ${m.title} - ${recorded}`, m.summary, ...m.keyPoints.map(p => `* ${p}`), ...actions].join('\n');
+  });
+  try {
+    const response = await ai.models.generateContent({
+      model: getModel(),
+      contents: `Combine the following voice memos from one ${period} into a single briefing. Respond in the memos' language. ${SUMMARY_STYLE_PROMPTS[summaryStyle]}
+      1. Write a short title (max 8 words).
+      2. Write a 2-4 sentence overview of the ${period}.
+      3. List the recurring themes.
+      4. List the decisions that were made.
+      5. List the action items that are still open, merging duplicates, with the owner and due date only when they are stated.
+      \n\n${entries.join('\n\n')}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            overview: { type: Type.STRING },
+            themes: { type: Type.ARRAY, items: { type: Type.STRING } },
+            decisions: { type: Type.ARRAY, items: { type: Type.STRING } },
+            actionItems: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  task: { type: Type.STRING },
+                  owner: { type: Type.STRING },
+                  dueDate: { type: Type.STRING }
+                },
+                required: ["task"]
+              }
+            }
+          },
+          required: ["title", "overview", "themes", "decisions", "actionItems"]
+        },
+        thinkingConfig: { thinkingBudget: 0 }
+      }
+    });
+    return JSON.parse(response.text || "");
+  } catch (error: any) {
+    console.error("Digest API error:", error);
+    throw new Error(`DIGEST_FAILED: ${error.message}`);
+  }
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  transcribeAudio,
+  summarizeTranscript,
+  translateAudio,
+  translateText,
+  translateConversationTurn,
+  synthesizeSpeech,
+  answerQuestion,
+  generateDigest,
+};
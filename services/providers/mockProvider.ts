@@ -0,0 +1,181 @@
+import { encodeWav } from "../audioUtils";
+import { getGlossary } from "../glossaryService";
+import { AIProvider, ConversationTurnResult, DigestInsights, DigestPeriod, DigestSource, LibraryAnswer, LibrarySource, MemoInsights, SummaryOptions, TranscriptionOptions, TranscriptionResult, TranslationResult } from "../../types";
+
+/**
+ * Deterministic offline backend. Output depends only on the inputs, so the
+ * record → transcribe → summarize and translate flows can be demoed and
+ * exercised without network access or an API key.
+ */
+
+const SIMULATED_LATENCY_MS = 400;
+
+const SAMPLE_SENTENCES = [
+  "Remember to send the revised quote to the supplier before Friday.",
+  "The team agreed to move the launch review to next Tuesday morning.",
+  "Pick up the signed contracts from the front desk after lunch.",
+  "Follow up with Sarah about the budget numbers for the third quarter.",
+  "Book a meeting room for the client workshop next week.",
+  "Check whether the new batch of samples has cleared customs.",
+];
+
+const delay = () => new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+
+// FNV-1a over a sample of the payload keeps hashing cheap for large recordings.
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(input.length / 4096));
+  for (let i = 0; i < input.length; i += step) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const MOCK_SECONDS_PER_SENTENCE = 4;
+
+const pickSentences = (seed: number, count: number): string[] => {
+  const picked: string[] = [];
+  for (let i = 0; i < count; i++) {
+    picked.push(SAMPLE_SENTENCES[(seed + i * 7) % SAMPLE_SENTENCES.length]);
+  }
+  return picked;
+};
+
+const transcribeAudio = async (base64Audio: string, mimeType: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> => {
+  await delay();
+  const seed = hashString(base64Audio + mimeType);
+  const sentenceCount = 1 + Math.min(4, Math.floor(base64Audio.length / 40000));
+  const sentences = pickSentences(seed, sentenceCount);
+  return {
+    text: sentences.join(' '),
+    segments: sentences.map((text, i) => ({
+      start: i * MOCK_SECONDS_PER_SENTENCE,
+      end: (i + 1) * MOCK_SECONDS_PER_SENTENCE,
+      text,
+      ...(options.diarize ? { speaker: `Speaker ${(i % 2) + 1}` } : {}),
+    })),
+  };
+};
+
+const ACTION_PATTERN = /^(remember|follow up|book|check|pick up|send|call|email)\b/i;
+const OWNER_PATTERN = /\bwith ([A-Z][a-z]+)\b/;
+const DUE_PATTERN = /\b(today|tomorrow|next week|(?:before |next |on )?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)(?: morning)?)\b/i;
+
+const TAG_KEYWORDS: Record<string, string> = {
+  supplier: 'suppliers',
+  quote: 'sales',
+  launch: 'product',
+  contract: 'legal',
+  budget: 'finance',
+  meeting: 'meetings',
+  workshop: 'clients',
+  customs: 'logistics',
+};
+
+const summarizeTranscript = async (transcript: string, options: SummaryOptions = {}): Promise<MemoInsights> => {
+  await delay();
+  const sentences = transcript.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+  const first = sentences[0] || transcript.trim();
+  const lower = transcript.toLowerCase();
+
+  return {
+    title: first.split(/\s+/).slice(0, 5).join(' ').replace(/[.!?,]$/, ''),
+    summary: `Mock summary: ${first}`,
+    keyPoints: options.length === 'brief' ? sentences.slice(0, 3) : sentences,
+    actionItems: sentences
+      .filter(s => ACTION_PATTERN.test(s))
+      .map(s => ({
+        task: s,
+        owner: s.match(OWNER_PATTERN)?.[1],
+        dueDate: s.match(DUE_PATTERN)?.[1],
+      })),
+    tags: Array.from(new Set(
+      Object.keys(TAG_KEYWORDS).filter(k => lower.includes(k)).map(k => TAG_KEYWORDS[k])
+    )).slice(0, 5),
+  };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const translateText = async (text: string, targetLanguage: string): Promise<string> => {
+  await delay();
+  // Forced glossary translations are applied so the glossary can be tried offline.
+  const translated = getGlossary().reduce((out, t) => {
+    const forced = t.translations[targetLanguage];
+    return forced ? out.replace(new RegExp(escapeRegExp(t.term), 'gi'), forced) : out;
+  }, text);
+  return `[${targetLanguage}] ${translated}`;
+};
+
+const translateAudio = async (base64Audio: string, mimeType: string, targetLanguage: string): Promise<TranslationResult> => {
+  const { text: original } = await transcribeAudio(base64Audio, mimeType);
+  const translated = await translateText(original, targetLanguage);
+  return { original, translated, sourceLanguage: 'English' };
+};
+
+// Alternates sides based on the audio hash so both directions get exercised.
+const translateConversationTurn = async (base64Audio: string, mimeType: string, languageA: string, languageB: string): Promise<ConversationTurnResult> => {
+  const fromA = hashString(base64Audio + mimeType) % 2 === 0;
+  const sourceLanguage = fromA ? languageA : languageB;
+  const targetLanguage = fromA ? languageB : languageA;
+  const { original, translated } = await translateAudio(base64Audio, mimeType, targetLanguage);
+  return { original, translated, sourceLanguage, targetLanguage };
+};
+
+const MOCK_TTS_SAMPLE_RATE = 16000;
+
+// A short chime per word stands in for speech; pitch follows the word so replays are identical.
+const synthesizeSpeech = async (text: string, language: string, voice: string): Promise<Blob> => {
+  await delay();
+  const words = text.split(/\s+/).filter(Boolean).slice(0, 24);
+  const toneSamples = Math.floor(MOCK_TTS_SAMPLE_RATE * 0.12);
+  const gapSamples = Math.floor(MOCK_TTS_SAMPLE_RATE * 0.05);
+  const samples = new Float32Array(words.length * (toneSamples + gapSamples));
+  words.forEach((word, w) => {
+    const frequency = 220 + (hashString(word + language + voice) % 440);
+    const offset = w * (toneSamples + gapSamples);
+    for (let i = 0; i < toneSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / toneSamples);
+      samples[offset + i] = 0.3 * envelope * Math.sin((2 * Math.PI * frequency * i) / MOCK_TTS_SAMPLE_RATE);
+    }
+  });
+  return encodeWav(samples, MOCK_TTS_SAMPLE_RATE);
+};
+
+// Quotes the best-ranked excerpts back, so citations and timestamp jumps can be tried offline.
+const answerQuestion = async (question: string, sources: LibrarySource[]): Promise<LibraryAnswer> => {
+  await delay();
+  if (sources.length === 0) return { answer: "Mock answer: none of your memos mention that.", citations: [] };
+  const cited = sources.slice(0, 2);
+  return {
+    answer: `Mock answer: ${cited.map(s => s.text).join(' ')}`,
+    citations: cited.map((_, i) => i),
+  };
+};
+
+// Stitches the memos' own insights together; decisions are the key points that read like one.
+const generateDigest = async (memos: DigestSource[], period: DigestPeriod): Promise<DigestInsights> => {
+  await delay();
+  const keyPoints = memos.flatMap(m => m.keyPoints);
+  return {
+    title: `Mock ${period === 'day' ? 'daily' : 'weekly'} digest`,
+    overview: `Mock digest of ${memos.length} memos: ${memos.map(m => m.title).join(', ')}.`,
+    themes: Array.from(new Set(memos.map(m => m.title))).slice(0, 5),
+    decisions: keyPoints.filter(p => /\b(agreed|decided|will)\b/i.test(p)),
+    actionItems: memos.flatMap(m => m.actionItems),
+  };
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  transcribeAudio,
+  summarizeTranscript,
+  translateAudio,
+  translateText,
+  translateConversationTurn,
+  synthesizeSpeech,
+  answerQuestion,
+  generateDigest,
+};
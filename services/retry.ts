@@ -0,0 +1,38 @@
+/**
+ * Retry helper for AI calls. Only failures that look transient (network
+ * drops, rate limits, 5xx, timeouts) are retried; a rejected payload fails
+ * fast so the user sees the error instead of waiting through backoff.
+ */
+
+interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  shouldRetry?: (error: any) => boolean;
+  onRetry?: (attempt: number, error: any) => void;
+}
+
+const TRANSIENT_PATTERN = /(failed to fetch|network|timeout|timed out|429|500|502|503|504|unavailable|overloaded|resource.?exhausted|rate.?limit)/i;
+
+export const isTransientError = (error: any): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return TRANSIENT_PATTERN.test(String(error?.message ?? error));
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { attempts = 3, baseDelayMs = 1000, shouldRetry = isTransientError, onRetry } = options;
+  let lastError: any;
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      return await fn();
+    } catch (err: any) {
+      lastError = err;
+      if (attempt === attempts || !shouldRetry(err)) break;
+      onRetry?.(attempt, err);
+      // Exponential backoff with a little jitter so parallel segments don't retry in lockstep.
+      await wait(baseDelayMs * 2 ** (attempt - 1) + Math.random() * 250);
+    }
+  }
+  throw lastError;
+};
@@ -0,0 +1,155 @@
+import { Memo, LibraryFilters } from '../types';
+
+/**
+ * In-memory inverted index over memo text. Built once per `memos` change so
+ * each keystroke only does a binary search over the sorted vocabulary instead
+ * of scanning every transcript.
+ */
+export interface SearchIndex {
+  postings: Map<string, Set<string>>;
+  vocabulary: string[];
+}
+
+const SHORT_MAX_SECONDS = 60;
+const MEDIUM_MAX_SECONDS = 300;
+
+export const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+};
+
+const searchableText = (memo: Memo): string => {
+  return [
+    memo.title,
+    memo.fileName,
+    memo.summary,
+    memo.transcript,
+    ...(memo.keyPoints || []),
+    ...(memo.suggestedTags || []),
+    ...(memo.tags || []),
+    memo.folder,
+  ].filter(Boolean).join(' ');
+};
+
+export const buildSearchIndex = (memos: Memo[]): SearchIndex => {
+  const postings = new Map<string, Set<string>>();
+  memos.forEach(memo => {
+    tokenize(searchableText(memo)).forEach(token => {
+      let ids = postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        postings.set(token, ids);
+      }
+      ids.add(memo.id);
+    });
+  });
+  return { postings, vocabulary: Array.from(postings.keys()).sort() };
+};
+
+const lowerBound = (sorted: string[], target: string): number => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Ids of memos containing any indexed token that starts with `prefix`.
+const matchPrefix = (index: SearchIndex, prefix: string): Set<string> => {
+  const result = new Set<string>();
+  for (let i = lowerBound(index.vocabulary, prefix); i < index.vocabulary.length; i++) {
+    const token = index.vocabulary[i];
+    if (!token.startsWith(prefix)) break;
+    index.postings.get(token)!.forEach(id => result.add(id));
+  }
+  return result;
+};
+
+/**
+ * Returns ids of memos matching every query term (prefix match), or null
+ * when the query is empty and nothing should be filtered out.
+ */
+export const searchMemos = (index: SearchIndex, query: string): Set<string> | null => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return null;
+  let result: Set<string> | null = null;
+  for (const term of terms) {
+    const matches = matchPrefix(index, term);
+    result = result === null ? matches : new Set([...result].filter(id => matches.has(id)));
+    if (result.size === 0) break;
+  }
+  return result;
+};
+
+const matchesDuration = (seconds: number, filter: LibraryFilters['duration']): boolean => {
+  switch (filter) {
+    case 'short': return seconds < SHORT_MAX_SECONDS;
+    case 'medium': return seconds >= SHORT_MAX_SECONDS && seconds <= MEDIUM_MAX_SECONDS;
+    case 'long': return seconds > MEDIUM_MAX_SECONDS;
+    default: return true;
+  }
+};
+
+export const applyLibraryFilters = (memos: Memo[], index: SearchIndex, filters: LibraryFilters): Memo[] => {
+  const matchedIds = searchMemos(index, filters.query);
+  const from = filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).getTime() : -Infinity;
+  const to = filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).getTime() : Infinity;
+
+  const filtered = memos.filter(m => {
+    if (matchedIds && !matchedIds.has(m.id)) return false;
+    if (m.timestamp < from || m.timestamp > to) return false;
+    if (!matchesDuration(m.duration, filters.duration)) return false;
+    if (filters.state === 'error' && !m.error) return false;
+    if (filters.state === 'processing' && !m.isProcessing) return false;
+    if (filters.tag && !m.tags?.includes(filters.tag)) return false;
+    return true;
+  });
+
+  return filtered.sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+    if (filters.sort === 'oldest') return a.timestamp - b.timestamp;
+    if (filters.sort === 'longest') return b.duration - a.duration;
+    return b.timestamp - a.timestamp;
+  });
+};
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#+/, '').toLowerCase();
+
+export const collectTags = (memos: Memo[]): string[] => {
+  return Array.from(new Set(memos.flatMap(m => m.tags || []))).sort();
+};
+
+export const collectFolders = (memos: Memo[]): string[] => {
+  return Array.from(new Set(memos.map(m => m.folder).filter((f): f is string => !!f))).sort((a, b) => a.localeCompare(b));
+};
+
+export interface FolderGroup {
+  folder: string | null; // null for unfiled memos
+  memos: Memo[];
+}
+
+/**
+ * Splits an already sorted list into folders (alphabetical, unfiled last)
+ * without disturbing the order inside each folder.
+ */
+export const groupMemosByFolder = (memos: Memo[]): FolderGroup[] => {
+  const groups = new Map<string | null, Memo[]>();
+  memos.forEach(memo => {
+    const key = memo.folder || null;
+    const list = groups.get(key);
+    if (list) list.push(memo);
+    else groups.set(key, [memo]);
+  });
+  return Array.from(groups, ([folder, list]) => ({ folder, memos: list })).sort((a, b) => {
+    if (a.folder === null) return 1;
+    if (b.folder === null) return -1;
+    return a.folder.localeCompare(b.folder);
+  });
+};
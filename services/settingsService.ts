@@ -0,0 +1,88 @@
+import { AppSettings, LogEntry, LogVerbosity } from '../types';
+
+/**
+ * User preferences, persisted in localStorage. Stored values are merged over
+ * the defaults so settings added in later versions pick up their default.
+ */
+
+const SETTINGS_STORAGE_KEY = 'allanecho_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  defaultTargetLanguage: 'English',
+  model: 'gemini-3-flash-preview',
+  summaryLength: 'standard',
+  summaryStyle: 'neutral',
+  recordingBitrate: 32000,
+  keepTranslationAudio: false,
+  silenceAutoStopSeconds: 0,
+  maxRecordingMinutes: 30,
+  audioRetentionDays: 0,
+  defaultTab: 'translate',
+  logVerbosity: 'all',
+};
+
+export const MODEL_OPTIONS: { label: string; value: string }[] = [
+  { label: 'Gemini 3 Flash', value: 'gemini-3-flash-preview' },
+  { label: 'Gemini 3 Pro', value: 'gemini-3-pro-preview' },
+  { label: 'Gemini 2.5 Flash', value: 'gemini-2.5-flash' },
+  { label: 'Gemini 2.5 Flash Lite', value: 'gemini-2.5-flash-lite' },
+];
+
+export const BITRATE_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Low (16 kbps)', value: 16000 },
+  { label: 'Standard (32 kbps)', value: 32000 },
+  { label: 'High (64 kbps)', value: 64000 },
+  { label: 'Max (128 kbps)', value: 128000 },
+];
+
+export const SILENCE_STOP_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Off', value: 0 },
+  { label: 'After 5 s', value: 5 },
+  { label: 'After 10 s', value: 10 },
+  { label: 'After 30 s', value: 30 },
+];
+
+export const MAX_RECORDING_OPTIONS: { label: string; value: number }[] = [
+  { label: '5 min', value: 5 },
+  { label: '15 min', value: 15 },
+  { label: '30 min', value: 30 },
+  { label: '60 min', value: 60 },
+  { label: 'No limit', value: 0 },
+];
+
+export const RETENTION_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Keep forever', value: 0 },
+  { label: 'After 30 days', value: 30 },
+  { label: 'After 90 days', value: 90 },
+  { label: 'After 1 year', value: 365 },
+];
+
+const LOG_LEVELS: Record<LogVerbosity, LogEntry['type'][]> = {
+  errors: ['ERROR'],
+  warnings: ['ERROR', 'WARNING'],
+  all: ['ERROR', 'WARNING', 'INFO'],
+};
+
+const readSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let current: AppSettings = readSettings();
+
+/**
+ * Current settings for code outside React (providers, queue callbacks).
+ */
+export const getSettings = (): AppSettings => current;
+
+export const updateSettings = (patch: Partial<AppSettings>): AppSettings => {
+  current = { ...current, ...patch };
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(current));
+  return current;
+};
+
+export const shouldLog = (type: LogEntry['type']): boolean => LOG_LEVELS[current.logVerbosity].includes(type);
@@ -0,0 +1,37 @@
+import { TranscriptSegment } from '../types';
+
+const SPEAKER_LABEL_PATTERN = /\bSpeaker \d+\b/g;
+
+/**
+ * Distinct speaker labels in order of first appearance.
+ */
+export const getSpeakers = (segments: TranscriptSegment[] = []): string[] => {
+  const seen: string[] = [];
+  segments.forEach(seg => {
+    if (seg.speaker && !seen.includes(seg.speaker)) seen.push(seg.speaker);
+  });
+  return seen;
+};
+
+export const getSpeakerName = (label: string, names?: Record<string, string>): string => {
+  return names?.[label]?.trim() || label;
+};
+
+/**
+ * Replaces generated labels ("Speaker 2") in AI output with the names the
+ * user assigned, so summaries and action items read naturally after renaming.
+ */
+export const applySpeakerNames = (text: string, names?: Record<string, string>): string => {
+  if (!names || Object.keys(names).length === 0) return text;
+  return text.replace(SPEAKER_LABEL_PATTERN, label => getSpeakerName(label, names));
+};
+
+/**
+ * Flat transcript with one "Speaker: text" line per segment, used as the
+ * summarizer input so it can attribute points and action items.
+ */
+export const formatSpeakerTranscript = (segments: TranscriptSegment[], names?: Record<string, string>): string => {
+  return segments
+    .map(seg => seg.speaker ? `${getSpeakerName(seg.speaker, names)}: ${seg.text.trim()}` : seg.text.trim())
+    .join('\n');
+};
@@ -0,0 +1,84 @@
+import { synthesizeSpeech } from './geminiService';
+
+export const TTS_VOICES = [
+  { label: 'Kore', value: 'Kore' },
+  { label: 'Puck', value: 'Puck' },
+  { label: 'Charon', value: 'Charon' },
+  { label: 'Aoede', value: 'Aoede' },
+  { label: 'Fenrir', value: 'Fenrir' },
+];
+
+export const TTS_RATES = [0.75, 1, 1.25, 1.5];
+
+/**
+ * Synthesized audio is cached per text/language/voice so replaying a
+ * translation starts immediately instead of waiting on another API call.
+ * Map order doubles as recency: hits are re-inserted and the oldest entry is
+ * evicted past the limit. Clips saved with history entries survive reloads
+ * in the vault instead (see `saveTranslationSpeech`).
+ */
+const SPEECH_CACHE_LIMIT = 30;
+const speechCache = new Map<string, Promise<Blob>>();
+let currentAudio: HTMLAudioElement | null = null;
+let currentUrl: string | null = null;
+
+const cacheKey = (text: string, language: string, voice: string) => `${voice}|${language}|${text}`;
+
+export const getSpeech = (text: string, language: string, voice: string): Promise<Blob> => {
+  const key = cacheKey(text, language, voice);
+  let pending = speechCache.get(key);
+  if (pending) {
+    speechCache.delete(key);
+  } else {
+    const request = synthesizeSpeech(text, language, voice);
+    // Failed requests must not poison the cache; a newer request may own the key by now.
+    request.catch(() => {
+      if (speechCache.get(key) === request) speechCache.delete(key);
+    });
+    pending = request;
+  }
+  speechCache.set(key, pending);
+  while (speechCache.size > SPEECH_CACHE_LIMIT) speechCache.delete(speechCache.keys().next().value!);
+  return pending;
+};
+
+export const isSpeechCached = (text: string, language: string, voice: string): boolean => {
+  return speechCache.has(cacheKey(text, language, voice));
+};
+
+export const stopSpeech = () => {
+  if (currentAudio) {
+    currentAudio.pause();
+    currentAudio = null;
+  }
+  if (currentUrl) {
+    URL.revokeObjectURL(currentUrl);
+    currentUrl = null;
+  }
+};
+
+/**
+ * Plays a speech clip, interrupting whatever is already playing.
+ * Resolves when playback ends or is interrupted.
+ */
+export const playSpeech = (blob: Blob, rate: number): Promise<void> => {
+  stopSpeech();
+  const url = URL.createObjectURL(blob);
+  const audio = new Audio(url);
+  audio.playbackRate = rate;
+  currentAudio = audio;
+  currentUrl = url;
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      if (currentAudio === audio) stopSpeech();
+      resolve();
+    };
+    audio.onended = finish;
+    audio.onpause = finish;
+    audio.play().catch(err => {
+      if (currentAudio === audio) stopSpeech();
+      reject(err);
+    });
+  });
+};
@@ -0,0 +1,79 @@
+import { Memo } from '../types';
+
+/**
+ * Vault housekeeping: the browser's quota and persistence (Storage API), the
+ * audio retention policy and picking recordings worth compacting.
+ */
+
+export const COMPACT_BITRATE = 16000;
+export const COMPACT_MIN_AGE_DAYS = 30; // recent memos are still being listened to and reprocessed
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Uncompressed or high-bitrate containers; webm recordings are already Opus.
+const COMPACTABLE_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/mp4', 'audio/m4a', 'audio/x-m4a', 'audio/aac'];
+
+export interface QuotaEstimate {
+  usage: number; // bytes used by this origin, across all storage types
+  quota: number; // bytes the browser will let this origin use
+}
+
+export interface CompactionProgress {
+  done: number;
+  total: number;
+  before: number; // bytes of the recordings replaced so far
+  after: number; // bytes of their replacements
+  running: boolean;
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes.toFixed(0)} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export const estimateQuota = async (): Promise<QuotaEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
+
+/** Null when the browser has no Storage API. */
+export const isStoragePersisted = async (): Promise<boolean | null> => {
+  if (!navigator.storage?.persisted) return null;
+  return navigator.storage.persisted();
+};
+
+/**
+ * Asks the browser not to evict the vault under storage pressure. Depending on
+ * the browser this prompts, is decided silently from site engagement, or is refused.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+};
+
+const hasAudio = (memo: Memo) => !memo.audioRemovedAt && memo.audioSize > 0;
+
+// Queued, processing and failed memos still need their audio to finish.
+const isSettled = (memo: Memo) => !memo.isProcessing && !memo.isQueued && !memo.error;
+
+/**
+ * Memos whose audio the retention policy drops. Pinned memos keep theirs.
+ */
+export const findExpiredAudio = (memos: Memo[], retentionDays: number, now = Date.now()): Memo[] => {
+  if (retentionDays <= 0) return [];
+  const cutoff = now - retentionDays * DAY_MS;
+  return memos.filter(m => hasAudio(m) && isSettled(m) && !m.pinned && m.timestamp < cutoff);
+};
+
+/**
+ * WAV and MP4 recordings older than `COMPACT_MIN_AGE_DAYS` and well above the
+ * compact bitrate. Memos compacted once are skipped, since the result may
+ * itself be MP4 on Safari.
+ */
+export const findCompactable = (memos: Memo[], now = Date.now()): Memo[] => memos.filter(m =>
+  hasAudio(m) && isSettled(m) && !m.compactedFrom && m.duration > 0
+  && m.timestamp < now - COMPACT_MIN_AGE_DAYS * DAY_MS
+  && COMPACTABLE_TYPES.includes(m.mimeType.split(';')[0].toLowerCase())
+  && (m.audioSize * 8) / m.duration > COMPACT_BITRATE * 1.5
+);
@@ -0,0 +1,486 @@
+import { Digest, Memo, QueueJob, TranslationHistoryEntry } from '../types';
+import { isLockEnabled, encryptBytes, decryptBytes, encryptJson, decryptJson } from './cryptoService';
+
+const DB_NAME = 'allanecho_vault';
+/**
+ * Schema history:
+ * 1 - `memos` store (metadata keyed by id) and `audio` store (raw Blobs keyed by memo id).
+ * 2 - `jobs` store for the offline processing queue.
+ * 3 - `translations` store for the Translator history; kept recordings live
+ *     in `audio` under `translation:<id>`, synthesized speech under
+ *     `translation:speech:<id>` (added later, no schema change).
+ * 4 - `digests` store for generated daily and weekly digests.
+ * Records may be stored encrypted (see `setVaultKey`) without a schema change.
+ */
+const DB_VERSION = 4;
+const MEMO_STORE = 'memos';
+const AUDIO_STORE = 'audio';
+const JOB_STORE = 'jobs';
+const TRANSLATION_STORE = 'translations';
+const DIGEST_STORE = 'digests';
+const TRANSLATION_AUDIO_PREFIX = 'translation:';
+const TRANSLATION_SPEECH_PREFIX = 'translation:speech:';
+const LEGACY_STORAGE_KEY = 'echo_mind_memos';
+const CORRUPT_LEGACY_KEY = 'echo_mind_memos_corrupt';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let vaultKey: CryptoKey | null = null;
+let rekeying: Promise<void> | null = null;
+let memoWrites: Promise<unknown> = Promise.resolve();
+
+/**
+ * Encrypted records replace the plaintext value in the same store. Reads
+ * accept both shapes, so a vault can be re-keyed in place.
+ */
+interface SealedRecord { id: string; cipher: ArrayBuffer; }
+interface SealedAudio { cipher: ArrayBuffer; type: string; }
+interface SealedJob { id: string; createdAt: number; cipher: ArrayBuffer; audio?: ArrayBuffer; }
+
+type StoredMemo = Memo | SealedRecord;
+type StoredTranslation = TranslationHistoryEntry | SealedRecord;
+type StoredDigest = Digest | SealedRecord;
+type StoredAudio = Blob | SealedAudio;
+type StoredJob = QueueJob | SealedJob;
+
+const isSealed = (record: object): record is { cipher: ArrayBuffer } => 'cipher' in record;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+      if (oldVersion < 1) {
+        db.createObjectStore(MEMO_STORE, { keyPath: 'id' });
+        db.createObjectStore(AUDIO_STORE);
+      }
+      if (oldVersion < 2) {
+        db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+      }
+      if (oldVersion < 3) {
+        db.createObjectStore(TRANSLATION_STORE, { keyPath: 'id' });
+      }
+      if (oldVersion < 4) {
+        db.createObjectStore(DIGEST_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Sets the key used to encrypt and decrypt records. Cleared on lock, after
+ * which every read and write fails until the passcode is entered again.
+ */
+export const setVaultKey = (key: CryptoKey | null) => {
+  vaultKey = key;
+};
+
+const requireKey = (): CryptoKey | null => {
+  if (vaultKey) return vaultKey;
+  if (isLockEnabled()) throw new Error('VAULT_LOCKED: unlock with your passcode first');
+  return null;
+};
+
+/**
+ * Reads, writes and deletes wait for a running re-key: a write landing mid-way
+ * would be sealed with the outgoing key or overwritten (or resurrected) by the
+ * re-key's snapshot, and a read could meet records sealed with the new key.
+ */
+const waitForRekey = async () => {
+  while (rekeying) await rekeying.catch(() => {});
+};
+
+const activeKey = async (): Promise<CryptoKey | null> => {
+  await waitForRekey();
+  return requireKey();
+};
+
+const sealRecord = async <T extends { id: string }>(value: T, key: CryptoKey | null): Promise<T | SealedRecord> =>
+  key ? { id: value.id, cipher: await encryptJson(key, value) } : value;
+
+const openRecord = <T extends { id: string }>(record: T | SealedRecord, key: CryptoKey | null): Promise<T> | T => {
+  if (!isSealed(record)) return record;
+  if (!key) throw new Error('VAULT_LOCKED: record is encrypted');
+  return decryptJson<T>(key, record.cipher);
+};
+
+const sealAudio = async (blob: Blob, key: CryptoKey | null): Promise<StoredAudio> =>
+  key ? { cipher: await encryptBytes(key, await blob.arrayBuffer()), type: blob.type } : blob;
+
+const openAudio = async (record: StoredAudio, key: CryptoKey | null): Promise<Blob> => {
+  if (record instanceof Blob) return record;
+  if (!key) throw new Error('VAULT_LOCKED: audio is encrypted');
+  return new Blob([await decryptBytes(key, record.cipher)], { type: record.type });
+};
+
+const sealJob = async (job: QueueJob, key: CryptoKey | null): Promise<StoredJob> => {
+  if (!key) return job;
+  if (job.kind === 'translation') {
+    const { audio, ...rest } = job;
+    return {
+      id: job.id,
+      createdAt: job.createdAt,
+      cipher: await encryptJson(key, { ...rest, audioType: audio.type }),
+      audio: await encryptBytes(key, await audio.arrayBuffer()),
+    };
+  }
+  return { id: job.id, createdAt: job.createdAt, cipher: await encryptJson(key, job) };
+};
+
+const openJob = async (record: StoredJob, key: CryptoKey | null): Promise<QueueJob> => {
+  if (!isSealed(record)) return record;
+  if (!key) throw new Error('VAULT_LOCKED: job is encrypted');
+  const job = await decryptJson<QueueJob & { audioType?: string }>(key, record.cipher);
+  if (record.audio) {
+    const { audioType, ...rest } = job;
+    return { ...rest, audio: new Blob([await decryptBytes(key, record.audio)], { type: audioType }) } as QueueJob;
+  }
+  return job;
+};
+
+const decodeLegacyMemos = (saved: string): { memo: Memo; blob?: Blob }[] => {
+  const legacy: (Memo & { audioBase64?: string })[] = JSON.parse(saved);
+  if (!Array.isArray(legacy)) throw new Error('not a memo list');
+  return legacy.map(({ audioBase64, ...memo }) => ({
+    memo,
+    blob: audioBase64 ? base64ToBlob(audioBase64, memo.mimeType) : undefined,
+  }));
+};
+
+/**
+ * One-time import of memos saved by the old localStorage implementation,
+ * which kept the whole library (audio included) as base64 under a single key.
+ * The key is removed only once every memo and its audio are committed. A
+ * value that cannot be decoded is moved aside under `CORRUPT_LEGACY_KEY` so
+ * it stops blocking every load but is not thrown away.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase, key: CryptoKey | null): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return 0;
+
+  let legacy: { memo: Memo; blob?: Blob }[];
+  try {
+    legacy = decodeLegacyMemos(saved);
+  } catch (e: any) {
+    // Removed first: the copy needs the quota the original is holding.
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    let moved = true;
+    try {
+      localStorage.setItem(CORRUPT_LEGACY_KEY, saved);
+    } catch {
+      moved = false;
+    }
+    throw new Error(`LEGACY_DATA_CORRUPT: ${moved ? `old library moved to ${CORRUPT_LEGACY_KEY}` : 'old library could not be kept'} (${e?.message})`);
+  }
+
+  const records: { memo: StoredMemo; audio?: StoredAudio }[] = [];
+  for (const { memo, blob } of legacy) {
+    records.push({
+      memo: await sealRecord({ ...memo, audioSize: blob?.size ?? 0 }, key),
+      audio: blob ? await sealAudio(blob, key) : undefined,
+    });
+  }
+
+  const tx = db.transaction([MEMO_STORE, AUDIO_STORE], 'readwrite');
+  const memoStore = tx.objectStore(MEMO_STORE);
+  const audioStore = tx.objectStore(AUDIO_STORE);
+  records.forEach(({ memo, audio }) => {
+    memoStore.put(memo);
+    if (audio) audioStore.put(audio, memo.id);
+  });
+
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacy.length;
+};
+
+/**
+ * A failed legacy migration is reported in `migrationError` rather than
+ * thrown, so the memos already in IndexedDB still load.
+ */
+export const loadMemos = async (): Promise<{ memos: Memo[]; migrated: number; migrationError?: string }> => {
+  const key = await activeKey();
+  const db = await openDB();
+  let migrated = 0;
+  let migrationError: string | undefined;
+  try {
+    migrated = await migrateFromLocalStorage(db, key);
+  } catch (e: any) {
+    migrationError = e?.message ?? String(e);
+  }
+  const tx = db.transaction(MEMO_STORE, 'readonly');
+  const records = await requestToPromise<StoredMemo[]>(tx.objectStore(MEMO_STORE).getAll());
+  const memos = await Promise.all(records.map(r => openRecord<Memo>(r, key)));
+  memos.sort((a, b) => b.timestamp - a.timestamp);
+  return { memos, migrated, migrationError };
+};
+
+/**
+ * Memo saves and deletes run one at a time, in call order. A save seals its
+ * records before opening its transaction, so a delete running alongside could
+ * commit first and then be undone by the save writing the memo back.
+ */
+const queueMemoWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const run = memoWrites.then(write);
+  memoWrites = run.catch(() => {});
+  return run;
+};
+
+export const saveMemos = (memos: Memo[]): Promise<void> => queueMemoWrite(async () => {
+  if (memos.length === 0) return;
+  const key = await activeKey();
+  // Encrypt before opening the transaction; it would auto-commit while awaiting crypto.
+  const records = await Promise.all(memos.map(m => sealRecord(m, key)));
+  const db = await openDB();
+  const tx = db.transaction(MEMO_STORE, 'readwrite');
+  const store = tx.objectStore(MEMO_STORE);
+  records.forEach(r => store.put(r));
+  await transactionDone(tx);
+});
+
+export const saveAudio = async (id: string, blob: Blob): Promise<void> => {
+  const record = await sealAudio(blob, await activeKey());
+  const db = await openDB();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).put(record, id);
+  await transactionDone(tx);
+};
+
+export const getAudio = async (id: string): Promise<Blob | undefined> => {
+  const key = await activeKey();
+  const db = await openDB();
+  const tx = db.transaction(AUDIO_STORE, 'readonly');
+  const record = await requestToPromise<StoredAudio | undefined>(tx.objectStore(AUDIO_STORE).get(id));
+  return record ? openAudio(record, key) : undefined;
+};
+
+export const deleteMemo = (id: string): Promise<void> => queueMemoWrite(async () => {
+  await waitForRekey();
+  const db = await openDB();
+  const tx = db.transaction([MEMO_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(MEMO_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(id);
+  await transactionDone(tx);
+});
+
+const recordSize = (record: object): number => {
+  if (record instanceof Blob) return record.size;
+  if (isSealed(record)) return record.cipher.byteLength;
+  return new Blob([JSON.stringify(record)]).size;
+};
+
+export interface StorageUsage {
+  total: number;
+  /** Memo metadata plus its audio, keyed by memo id. */
+  memos: Record<string, number>;
+  translations: number;
+  digests: number;
+}
+
+/**
+ * Bytes held by the vault: audio Blob sizes plus the serialized metadata.
+ * Encrypted records are counted by their ciphertext size.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const db = await openDB();
+  const tx = db.transaction([MEMO_STORE, AUDIO_STORE, TRANSLATION_STORE, DIGEST_STORE], 'readonly');
+  const memoRecords = await requestToPromise<StoredMemo[]>(tx.objectStore(MEMO_STORE).getAll());
+  const audioIds = await requestToPromise<IDBValidKey[]>(tx.objectStore(AUDIO_STORE).getAllKeys());
+  const audioRecords = await requestToPromise<StoredAudio[]>(tx.objectStore(AUDIO_STORE).getAll());
+  const translationRecords = await requestToPromise<StoredTranslation[]>(tx.objectStore(TRANSLATION_STORE).getAll());
+  const digestRecords = await requestToPromise<StoredDigest[]>(tx.objectStore(DIGEST_STORE).getAll());
+
+  const memos: Record<string, number> = {};
+  memoRecords.forEach(r => { memos[r.id] = recordSize(r); });
+  let translations = translationRecords.reduce((sum, r) => sum + recordSize(r), 0);
+  audioRecords.forEach((r, i) => {
+    const id = String(audioIds[i]);
+    if (id.startsWith(TRANSLATION_AUDIO_PREFIX)) translations += recordSize(r);
+    else memos[id] = (memos[id] ?? 0) + recordSize(r);
+  });
+  const digests = digestRecords.reduce((sum, r) => sum + recordSize(r), 0);
+  const total = Object.values(memos).reduce((sum, size) => sum + size, translations + digests);
+  return { total, memos, translations, digests };
+};
+
+/** Drops a memo's audio and keeps its metadata, for retention policies. */
+export const deleteAudio = async (id: string): Promise<void> => {
+  await waitForRekey();
+  const db = await openDB();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const listJobs = async (): Promise<QueueJob[]> => {
+  const key = await activeKey();
+  const db = await openDB();
+  const tx = db.transaction(JOB_STORE, 'readonly');
+  const records = await requestToPromise<StoredJob[]>(tx.objectStore(JOB_STORE).getAll());
+  const jobs = await Promise.all(records.map(r => openJob(r, key)));
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const putJob = async (job: QueueJob): Promise<void> => {
+  const record = await sealJob(job, await activeKey());
+  const db = await openDB();
+  const tx = db.transaction(JOB_STORE, 'readwrite');
+  tx.objectStore(JOB_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const removeJob = async (id: string): Promise<void> => {
+  await waitForRekey();
+  const db = await openDB();
+  const tx = db.transaction(JOB_STORE, 'readwrite');
+  tx.objectStore(JOB_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const listTranslations = async (): Promise<TranslationHistoryEntry[]> => {
+  const key = await activeKey();
+  const db = await openDB();
+  const tx = db.transaction(TRANSLATION_STORE, 'readonly');
+  const records = await requestToPromise<StoredTranslation[]>(tx.objectStore(TRANSLATION_STORE).getAll());
+  const entries = await Promise.all(records.map(r => openRecord<TranslationHistoryEntry>(r, key)));
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveTranslation = async (entry: TranslationHistoryEntry, audio?: Blob): Promise<void> => {
+  const key = await activeKey();
+  const record = await sealRecord(entry, key);
+  const audioRecord = audio ? await sealAudio(audio, key) : undefined;
+  const db = await openDB();
+  const tx = db.transaction([TRANSLATION_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(TRANSLATION_STORE).put(record);
+  if (audioRecord) tx.objectStore(AUDIO_STORE).put(audioRecord, TRANSLATION_AUDIO_PREFIX + entry.id);
+  await transactionDone(tx);
+};
+
+export const getTranslationAudio = (id: string): Promise<Blob | undefined> => getAudio(TRANSLATION_AUDIO_PREFIX + id);
+
+/** Stores synthesized speech with its entry; `entry.speechVoice` names the voice used. */
+export const saveTranslationSpeech = async (entry: TranslationHistoryEntry, speech: Blob): Promise<void> => {
+  const key = await activeKey();
+  const record = await sealRecord(entry, key);
+  const audioRecord = await sealAudio(speech, key);
+  const db = await openDB();
+  const tx = db.transaction([TRANSLATION_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(TRANSLATION_STORE).put(record);
+  tx.objectStore(AUDIO_STORE).put(audioRecord, TRANSLATION_SPEECH_PREFIX + entry.id);
+  await transactionDone(tx);
+};
+
+export const getTranslationSpeech = (id: string): Promise<Blob | undefined> => getAudio(TRANSLATION_SPEECH_PREFIX + id);
+
+export const deleteTranslation = async (id: string): Promise<void> => {
+  await waitForRekey();
+  const db = await openDB();
+  const tx = db.transaction([TRANSLATION_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(TRANSLATION_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(TRANSLATION_AUDIO_PREFIX + id);
+  tx.objectStore(AUDIO_STORE).delete(TRANSLATION_SPEECH_PREFIX + id);
+  await transactionDone(tx);
+};
+
+export const listDigests = async (): Promise<Digest[]> => {
+  const key = await activeKey();
+  const db = await openDB();
+  const tx = db.transaction(DIGEST_STORE, 'readonly');
+  const records = await requestToPromise<StoredDigest[]>(tx.objectStore(DIGEST_STORE).getAll());
+  const digests = await Promise.all(records.map(r => openRecord<Digest>(r, key)));
+  return digests.sort((a, b) => b.periodStart - a.periodStart);
+};
+
+export const saveDigest = async (digest: Digest): Promise<void> => {
+  const record = await sealRecord(digest, await activeKey());
+  const db = await openDB();
+  const tx = db.transaction(DIGEST_STORE, 'readwrite');
+  tx.objectStore(DIGEST_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const deleteDigest = async (id: string): Promise<void> => {
+  await waitForRekey();
+  const db = await openDB();
+  const tx = db.transaction(DIGEST_STORE, 'readwrite');
+  tx.objectStore(DIGEST_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Rewrites every record from one key to another: `null` to a key encrypts a
+ * plaintext vault, a key to `null` decrypts it, and key to key changes the
+ * passcode. All records are written in a single transaction, after which
+ * `toKey` becomes the vault key and `commit` (saving or removing the lock)
+ * runs. Other storage calls are held until then, so none of them sees the new
+ * records with the old key or lock state.
+ */
+export const rekeyVault = (fromKey: CryptoKey | null, toKey: CryptoKey | null, commit?: () => void): Promise<void> => {
+  const run = rewriteVault(fromKey, toKey).then(() => {
+    vaultKey = toKey;
+    commit?.();
+  });
+  rekeying = run;
+  const clear = () => {
+    if (rekeying === run) rekeying = null;
+  };
+  run.then(clear, clear);
+  return run;
+};
+
+const rewriteVault = async (fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<void> => {
+  const db = await openDB();
+  const readTx = db.transaction([MEMO_STORE, AUDIO_STORE, JOB_STORE, TRANSLATION_STORE, DIGEST_STORE], 'readonly');
+  const memoRecords = await requestToPromise<StoredMemo[]>(readTx.objectStore(MEMO_STORE).getAll());
+  const audioIds = await requestToPromise<IDBValidKey[]>(readTx.objectStore(AUDIO_STORE).getAllKeys());
+  const audioRecords = await requestToPromise<StoredAudio[]>(readTx.objectStore(AUDIO_STORE).getAll());
+  const jobRecords = await requestToPromise<StoredJob[]>(readTx.objectStore(JOB_STORE).getAll());
+  const translationRecords = await requestToPromise<StoredTranslation[]>(readTx.objectStore(TRANSLATION_STORE).getAll());
+  const digestRecords = await requestToPromise<StoredDigest[]>(readTx.objectStore(DIGEST_STORE).getAll());
+
+  const memos = await Promise.all(memoRecords.map(async r => sealRecord(await openRecord<Memo>(r, fromKey), toKey)));
+  const audio = await Promise.all(audioRecords.map(async r => sealAudio(await openAudio(r, fromKey), toKey)));
+  const jobs = await Promise.all(jobRecords.map(async r => sealJob(await openJob(r, fromKey), toKey)));
+  const translations = await Promise.all(translationRecords.map(async r => sealRecord(await openRecord<TranslationHistoryEntry>(r, fromKey), toKey)));
+  const digests = await Promise.all(digestRecords.map(async r => sealRecord(await openRecord<Digest>(r, fromKey), toKey)));
+
+  const tx = db.transaction([MEMO_STORE, AUDIO_STORE, JOB_STORE, TRANSLATION_STORE, DIGEST_STORE], 'readwrite');
+  memos.forEach(r => tx.objectStore(MEMO_STORE).put(r));
+  audio.forEach((r, i) => tx.objectStore(AUDIO_STORE).put(r, audioIds[i]));
+  jobs.forEach(r => tx.objectStore(JOB_STORE).put(r));
+  translations.forEach(r => tx.objectStore(TRANSLATION_STORE).put(r));
+  digests.forEach(r => tx.objectStore(DIGEST_STORE).put(r));
+  await transactionDone(tx);
+};
@@ -0,0 +1,75 @@
+import { Memo, TranscriptRevision, TranscriptSegment } from '../types';
+import { formatSpeakerTranscript } from './speakerUtils';
+
+/**
+ * Transcript edits never overwrite: the version being replaced is pushed onto
+ * `transcriptRevisions`, so the first entry is always the original AI output.
+ * Every helper returns a patch for `onUpdate`.
+ */
+
+const MAX_REVISIONS = 20;
+
+const snapshot = (memo: Memo): TranscriptRevision => ({
+  transcript: memo.transcript,
+  segments: memo.segments,
+  editedAt: memo.transcriptEditedAt,
+});
+
+// Drops the oldest edits first but keeps the original at index 0.
+const trimRevisions = (revisions: TranscriptRevision[]): TranscriptRevision[] => {
+  return revisions.length <= MAX_REVISIONS ? revisions : [revisions[0], ...revisions.slice(1 - MAX_REVISIONS)];
+};
+
+// Same shape the transcription pipeline produces, so edited memos summarize like fresh ones.
+export const transcriptFromSegments = (segments: TranscriptSegment[]): string => {
+  return segments.some(seg => seg.speaker)
+    ? formatSpeakerTranscript(segments)
+    : segments.map(seg => seg.text.trim()).filter(Boolean).join(' ');
+};
+
+export const editTranscript = (memo: Memo, transcript: string, segments?: TranscriptSegment[]): Partial<Memo> => ({
+  transcript,
+  segments,
+  transcriptEditedAt: Date.now(),
+  summaryOutdated: true,
+  transcriptRevisions: trimRevisions([...(memo.transcriptRevisions || []), snapshot(memo)]),
+});
+
+export const undoTranscriptEdit = (memo: Memo): Partial<Memo> => {
+  const revisions = memo.transcriptRevisions || [];
+  const previous = revisions[revisions.length - 1];
+  if (!previous) return {};
+  return {
+    transcript: previous.transcript,
+    segments: previous.segments,
+    transcriptEditedAt: previous.editedAt,
+    summaryOutdated: true,
+    transcriptRevisions: revisions.slice(0, -1),
+  };
+};
+
+// Unlike undo, restoring keeps the current version in the history.
+export const restoreTranscriptRevision = (memo: Memo, index: number): Partial<Memo> => {
+  const revisions = memo.transcriptRevisions || [];
+  const target = revisions[index];
+  if (!target) return {};
+  return {
+    transcript: target.transcript,
+    segments: target.segments,
+    transcriptEditedAt: target.editedAt,
+    summaryOutdated: true,
+    transcriptRevisions: trimRevisions([...revisions, snapshot(memo)]),
+  };
+};
+
+/**
+ * Before a re-transcription replaces the text, keeps the current version
+ * if the memo has any edit history worth preserving.
+ */
+export const archiveBeforeRetranscription = (memo: Memo): Partial<Memo> => {
+  if (!memo.transcriptEditedAt && !memo.transcriptRevisions?.length) return {};
+  return {
+    transcriptEditedAt: undefined,
+    transcriptRevisions: trimRevisions([...(memo.transcriptRevisions || []), snapshot(memo)]),
+  };
+};
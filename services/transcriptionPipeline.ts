@@ -0,0 +1,111 @@
+import { SegmentProgress, TranscriptionOptions, TranscriptionResult } from '../types';
+import { transcribeAudio } from './geminiService';
+import { blobToBase64, splitAudioIntoSegments } from './audioUtils';
+import { formatSpeakerTranscript } from './speakerUtils';
+import { withRetry } from './retry';
+
+/**
+ * Recordings longer than this are split before transcription; shorter ones
+ * are sent inline in their original container, as before.
+ */
+const SEGMENT_SECONDS = 60;
+const SEGMENT_CONCURRENCY = 3;
+const SEGMENT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Lets an interrupted run pick up where it stopped: segments already in
+ * `completed` are not sent again, and each newly finished one is reported
+ * through `onSegment` so the caller can store it.
+ */
+export interface SegmentCheckpoint {
+  completed: Record<number, TranscriptionResult>;
+  onSegment: (index: number, result: TranscriptionResult) => void;
+}
+
+// Retries a single segment on any failure; other segments are unaffected.
+const transcribeSegment = async (segment: Blob, options: TranscriptionOptions): Promise<TranscriptionResult> => {
+  const base64 = await blobToBase64(segment);
+  return withRetry(() => transcribeAudio(base64, segment.type, options), {
+    attempts: SEGMENT_MAX_ATTEMPTS,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    shouldRetry: () => true,
+  });
+};
+
+/**
+ * Once a segment has used up its retries no new segments are started; those
+ * already in flight finish and are kept. The error names the failed segments
+ * and carries no transient wording, so callers do not retry the whole
+ * recording on top of the per-segment retries.
+ */
+const transcribeInSegments = async (
+  blob: Blob,
+  options: TranscriptionOptions,
+  onProgress?: (progress: SegmentProgress) => void,
+  checkpoint?: SegmentCheckpoint
+): Promise<TranscriptionResult> => {
+  const segments = await splitAudioIntoSegments(blob, SEGMENT_SECONDS);
+  const results: TranscriptionResult[] = segments.map((_, i) => checkpoint?.completed[i]);
+  const pending = segments.map((_, i) => i).filter(i => !results[i]);
+  const failed: number[] = [];
+  let firstError: any;
+  let completed = segments.length - pending.length;
+  let nextIndex = 0;
+  onProgress?.({ completed, total: segments.length });
+
+  const worker = async () => {
+    while (failed.length === 0 && nextIndex < pending.length) {
+      const index = pending[nextIndex++];
+      try {
+        results[index] = await transcribeSegment(segments[index], options);
+      } catch (err: any) {
+        failed.push(index);
+        firstError ??= err;
+        continue;
+      }
+      checkpoint?.onSegment(index, results[index]);
+      completed++;
+      onProgress?.({ completed, total: segments.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(SEGMENT_CONCURRENCY, pending.length) }, worker));
+  if (failed.length > 0) {
+    const list = failed.sort((a, b) => a - b).map(i => i + 1).join(', ');
+    throw new Error(`SEGMENT_FAILED: segment ${list} of ${segments.length} after ${SEGMENT_MAX_ATTEMPTS} attempts`, { cause: firstError });
+  }
+  // Segment timings are relative to their own chunk; shift them onto the full recording.
+  return {
+    text: results.map(r => r.text.trim()).filter(Boolean).join(' '),
+    segments: results.flatMap((r, i) => r.segments.map(seg => ({
+      ...seg,
+      start: seg.start + i * SEGMENT_SECONDS,
+      end: seg.end + i * SEGMENT_SECONDS,
+    }))),
+  };
+};
+
+/** Segmented recordings retry per segment, so callers should not retry them as a whole. */
+export const isSegmented = (duration: number): boolean => duration > SEGMENT_SECONDS;
+
+/**
+ * Speaker labels are assigned per request, so on long diarized recordings
+ * "Speaker 1" in one segment is not guaranteed to be the same person in the next.
+ */
+export const transcribeRecording = async (
+  blob: Blob,
+  duration: number,
+  options: TranscriptionOptions = {},
+  onProgress?: (progress: SegmentProgress) => void,
+  checkpoint?: SegmentCheckpoint
+): Promise<TranscriptionResult> => {
+  const result = isSegmented(duration)
+    ? await transcribeInSegments(blob, options, onProgress, checkpoint)
+    : await transcribeAudio(await blobToBase64(blob), blob.type.split(';')[0], options);
+
+  if (options.diarize && result.segments.some(seg => seg.speaker)) {
+    return { ...result, text: formatSpeakerTranscript(result.segments) };
+  }
+  return result;
+};
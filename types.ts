@@ -1,13 +1,76 @@
 
+export interface ActionItem {
+  task: string;
+  owner?: string;
+  dueDate?: string;
+}
+
+export interface MemoInsights {
+  title: string;
+  summary: string;
+  keyPoints: string[];
+  actionItems: ActionItem[];
+  tags: string[];
+}
+
+export interface TranscriptSegment {
+  start: number; // seconds from the start of the recording
+  end: number;
+  text: string;
+  speaker?: string; // "Speaker 1", "Speaker 2"... when transcribed with diarization
+}
+
+export interface TranscriptRevision {
+  transcript: string;
+  segments?: TranscriptSegment[];
+  editedAt?: number; // absent when this version is AI output
+}
+
+export interface TranscriptionOptions {
+  diarize?: boolean;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+export interface SegmentProgress {
+  completed: number;
+  total: number;
+}
+
 export interface Memo {
   id: string;
   timestamp: number;
-  audioBase64: string;
   mimeType: string;
+  audioSize: number; // bytes; the audio Blob itself lives in IndexedDB
+  audioRemovedAt?: number; // audio dropped by the retention policy; text is kept
+  compactedFrom?: number; // audio size in bytes before it was re-encoded by Compact
+  fileName?: string; // original name when the audio was imported rather than recorded
   transcript: string;
+  segments?: TranscriptSegment[];
+  transcriptEditedAt?: number; // set while the current transcript is a user edit
+  transcriptRevisions?: TranscriptRevision[]; // replaced versions, oldest (the AI original) first
+  summaryOutdated?: boolean; // transcript changed by hand since the summary was written
+  speakerNames?: Record<string, string>; // speaker label -> user-assigned name
+  transcriptionOptions?: TranscriptionOptions;
   summary: string;
+  // Structured insights; absent on memos created before they existed
+  title?: string;
+  keyPoints?: string[];
+  actionItems?: ActionItem[];
+  suggestedTags?: string[];
+  // Organization, all user-set; suggested tags only become tags once accepted
+  folder?: string; // folder name; absent means unfiled
+  tags?: string[];
+  pinned?: boolean;
   duration: number;
+  waveform?: number[]; // 0-1 loudness per bar for the card thumbnail, computed on first load
   isProcessing?: boolean; 
+  isQueued?: boolean; // waiting in the offline job queue
+  segmentProgress?: SegmentProgress;
+  segmentResults?: Record<number, TranscriptionResult>; // finished segments of an unfinished transcription, by index
   error?: boolean; 
 }
 
@@ -30,3 +93,169 @@ export enum ProcessingStatus {
 }
 
 export type Tab = 'record' | 'translate' | 'library' | 'settings';
+
+export interface TranslationResult {
+  original: string;
+  translated: string;
+  sourceLanguage?: string; // detected spoken language, when the provider reports it
+}
+
+export interface ConversationTurnResult extends TranslationResult {
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export interface ConversationTurn extends ConversationTurnResult {
+  id: string;
+  timestamp: number;
+  side: 'A' | 'B';
+}
+
+interface QueueJobBase {
+  id: string;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export type ReprocessScope = 'all' | 'transcript' | 'summary';
+
+export interface MemoQueueJob extends QueueJobBase {
+  kind: 'memo';
+  memoId: string; // audio is already in the vault under this id
+  duration: number;
+  options: TranscriptionOptions;
+  scope?: ReprocessScope; // defaults to 'all'
+}
+
+export interface TranslationQueueJob extends QueueJobBase {
+  kind: 'translation';
+  audio: Blob;
+  targetLanguage: string;
+  conversationPartner?: string; // set for conversation turns: targetLanguage is side A, this is side B
+  result?: TranslationResult | ConversationTurnResult; // kept until the Translator picks it up
+}
+
+export type QueueJob = MemoQueueJob | TranslationQueueJob;
+
+export type SummaryLength = 'brief' | 'standard' | 'detailed';
+export type SummaryStyle = 'neutral' | 'professional' | 'casual';
+
+export interface SummaryOptions {
+  length?: SummaryLength;
+  style?: SummaryStyle;
+}
+
+export type AIProviderId = 'gemini' | 'mock';
+
+// A retrieved excerpt of one memo, handed to the model as context for a library question.
+export interface LibrarySource {
+  id: string;
+  memoId: string;
+  memoTitle: string;
+  timestamp: number; // when the memo was recorded
+  start?: number; // seconds into the recording; absent for summary excerpts
+  text: string;
+}
+
+export interface LibraryAnswer {
+  answer: string;
+  citations: number[]; // indexes into the sources the answer was given
+}
+
+export interface LibraryChatTurn {
+  id: string;
+  question: string;
+  answer?: string;
+  sources: LibrarySource[]; // only the cited ones once answered
+  status: 'pending' | 'done' | 'error';
+}
+
+export type DigestPeriod = 'day' | 'week';
+
+// Compact view of one memo handed to the model when writing a digest.
+export interface DigestSource {
+  title: string;
+  timestamp: number;
+  summary: string;
+  keyPoints: string[];
+  actionItems: ActionItem[];
+}
+
+export interface DigestInsights {
+  title: string;
+  overview: string;
+  themes: string[];
+  decisions: string[];
+  actionItems: ActionItem[];
+}
+
+export interface Digest extends DigestInsights {
+  id: string;
+  period: DigestPeriod;
+  periodStart: number; // local midnight of the day, or of the Monday for weeks
+  createdAt: number;
+  memoIds: string[]; // memos the digest was generated from
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  transcribeAudio: (base64Audio: string, mimeType: string, options?: TranscriptionOptions) => Promise<TranscriptionResult>;
+  summarizeTranscript: (transcript: string, options?: SummaryOptions) => Promise<MemoInsights>;
+  translateAudio: (base64Audio: string, mimeType: string, targetLanguage: string) => Promise<TranslationResult>;
+  translateText: (text: string, targetLanguage: string) => Promise<string>;
+  translateConversationTurn: (base64Audio: string, mimeType: string, languageA: string, languageB: string) => Promise<ConversationTurnResult>;
+  synthesizeSpeech: (text: string, language: string, voice: string) => Promise<Blob>;
+  answerQuestion: (question: string, sources: LibrarySource[]) => Promise<LibraryAnswer>;
+  generateDigest: (memos: DigestSource[], period: DigestPeriod) => Promise<DigestInsights>;
+}
+
+export type LibrarySort = 'newest' | 'oldest' | 'longest';
+export type DurationFilter = 'any' | 'short' | 'medium' | 'long';
+export type MemoStateFilter = 'all' | 'error' | 'processing';
+
+export interface LibraryFilters {
+  query: string;
+  dateFrom: string; // yyyy-mm-dd from <input type="date">, empty for open-ended
+  dateTo: string;
+  duration: DurationFilter;
+  state: MemoStateFilter;
+  sort: LibrarySort;
+  tag: string; // only memos carrying this tag; empty for all
+  groupByFolder: boolean;
+}
+
+export type LogVerbosity = 'errors' | 'warnings' | 'all';
+
+export interface AppSettings {
+  defaultTargetLanguage: string;
+  model: string; // Gemini model used for transcription, summaries and translation
+  summaryLength: SummaryLength;
+  summaryStyle: SummaryStyle;
+  recordingBitrate: number; // bits per second requested from MediaRecorder
+  keepTranslationAudio: boolean; // store the recording with each translation history entry
+  silenceAutoStopSeconds: number; // stop a memo recording after this much silence; 0 disables
+  maxRecordingMinutes: number; // recorded time (pauses excluded) before a memo recording stops; 0 disables
+  audioRetentionDays: number; // drop memo audio (keeping the text) once older than this; 0 keeps it forever
+  defaultTab: Tab;
+  logVerbosity: LogVerbosity;
+}
+
+export interface TranslationHistoryEntry {
+  id: string;
+  timestamp: number;
+  original: string;
+  translated: string;
+  sourceLanguage?: string;
+  targetLanguage: string;
+  duration?: number; // seconds of speech, for entries translated from audio
+  audioMimeType?: string; // set when the recording was kept in the vault
+  speechVoice?: string; // voice of the synthesized translation audio stored with the entry
+}
+
+export interface GlossaryTerm {
+  id: string;
+  term: string; // preferred spelling, written verbatim in transcripts
+  translations: Record<string, string>; // language -> forced translation; missing means keep the term as is
+}